@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpStatus,
+  HttpException,
+  ValidationPipe,
+  UsePipes,
+} from '@nestjs/common';
+import { AlertsService } from './alerts.service';
+import { RequireRole } from '../auth/auth.decorators';
+import {
+  AlertEvent,
+  AlertHistoryQuery,
+  AlertRule,
+  AlertRuleRequest,
+} from '../types';
+
+@Controller('alerts')
+export class AlertsController {
+  constructor(private readonly alertsService: AlertsService) {}
+
+  @Get('rules')
+  getRules(): AlertRule[] {
+    return this.alertsService.getRules();
+  }
+
+  // Rules publish to MQTT or call a webhook URL, so they need the same role
+  // as publishing directly
+  @Post('rules')
+  @RequireRole('admin')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  addRule(@Body() request: AlertRuleRequest): AlertRule {
+    try {
+      return this.alertsService.addRule(request);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      throw new HttpException(errorMessage, HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Delete('rules/:id')
+  @RequireRole('operator')
+  deleteRule(@Param('id') id: string): { message: string; timestamp: Date } {
+    if (!this.alertsService.deleteRule(id)) {
+      throw new HttpException(
+        `Alert rule ${id} not found`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return {
+      message: `Alert rule ${id} deleted`,
+      timestamp: new Date(),
+    };
+  }
+
+  @Get('history')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  getHistory(@Query() query: AlertHistoryQuery): AlertEvent[] {
+    return this.alertsService.getHistory(query);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AlertsService } from './alerts.service';
+import { AlertsController } from './alerts.controller';
+import { MqttModule } from '../mqtt/mqtt.module';
+import { LogStreamModule } from '../log-stream/log-stream.module';
+
+@Module({
+  imports: [MqttModule, LogStreamModule],
+  controllers: [AlertsController],
+  providers: [AlertsService],
+})
+export class AlertsModule {}
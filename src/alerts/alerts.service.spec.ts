@@ -0,0 +1,122 @@
+import 'reflect-metadata';
+import { Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import configuration from '../config/configuration';
+import { LogStreamService } from '../log-stream/log-stream.service';
+import { MqttSubscriberService } from '../mqtt/mqtt-subscriber.service';
+import { LogEntry, LogSeverity } from '../types';
+import { AlertsService } from './alerts.service';
+
+describe('AlertsService', () => {
+  let logStream: LogStreamService;
+  let publish: jest.Mock;
+  let service: AlertsService;
+
+  const entry = (deviceId = 'sensor-1'): LogEntry => ({
+    message: 'overheated',
+    device_id: deviceId,
+    severity: LogSeverity.ERROR,
+  });
+
+  const addRule = () =>
+    service.addRule({
+      name: 'overheating',
+      messagePattern: 'overheat',
+      threshold: 2,
+      windowSeconds: 10,
+      cooldownSeconds: 60,
+      alertTopic: 'alerts/overheating',
+    });
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    logStream = new LogStreamService();
+    publish = jest.fn(() => Promise.resolve());
+    service = new AlertsService(
+      {
+        alerts: { historySize: 10, webhookTimeout: 1000 },
+      } as ConfigType<typeof configuration>,
+      logStream,
+      {
+        canPublish: () => true,
+        publish,
+      } as unknown as MqttSubscriberService,
+    );
+    service.onModuleInit();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('triggers once the threshold is reached within the window', async () => {
+    addRule();
+
+    logStream.publish(entry());
+    jest.advanceTimersByTime(11000);
+    logStream.publish(entry());
+    expect(publish).not.toHaveBeenCalled();
+
+    logStream.publish(entry());
+    await Promise.resolve();
+    expect(publish).toHaveBeenCalledWith(
+      'alerts/overheating',
+      expect.objectContaining({ deviceId: 'sensor-1', matchCount: 2 }),
+    );
+    expect(service.getHistory({})).toHaveLength(1);
+  });
+
+  it('stays quiet during the cooldown and counts devices separately', async () => {
+    addRule();
+
+    [1, 2, 3, 4].forEach(() => logStream.publish(entry()));
+    jest.advanceTimersByTime(30000);
+    [1, 2].forEach(() => logStream.publish(entry()));
+    [1, 2].forEach(() => logStream.publish(entry('sensor-2')));
+    await Promise.resolve();
+    expect(publish).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(31000);
+    [1, 2].forEach(() => logStream.publish(entry()));
+    await Promise.resolve();
+    expect(publish).toHaveBeenCalledTimes(3);
+  });
+
+  it('drops state once the window and cooldown have passed', () => {
+    addRule();
+    const states = service['states'];
+
+    logStream.publish(entry('sensor-1'));
+    jest.advanceTimersByTime(1000);
+    [1, 2].forEach(() => logStream.publish(entry('sensor-2')));
+    expect(states.size).toBe(2);
+
+    // sensor-1's match left the window, sensor-2 is still cooling down
+    jest.advanceTimersByTime(59000);
+    expect(Array.from(states.keys())).toEqual([
+      expect.stringMatching(/:sensor-2$/),
+    ]);
+
+    jest.advanceTimersByTime(60000);
+    expect(states.size).toBe(0);
+  });
+
+  it('forgets the state of deleted rules', () => {
+    const rule = addRule();
+
+    logStream.publish(entry());
+    expect(service.deleteRule(rule.id)).toBe(true);
+    expect(service['states'].size).toBe(0);
+    expect(service.deleteRule(rule.id)).toBe(false);
+  });
+});
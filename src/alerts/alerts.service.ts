@@ -0,0 +1,338 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import axios from 'axios';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import configuration from '../config/configuration';
+import { LogStreamService } from '../log-stream/log-stream.service';
+import { MqttSubscriberService } from '../mqtt/mqtt-subscriber.service';
+import { matchesTopicFilter } from '../mqtt/topic-matcher';
+import { parseTopicTemplate } from '../mqtt/topic-template';
+import {
+  LOG_SEVERITY_LEVELS,
+  AlertActionResult,
+  AlertEvent,
+  AlertHistoryQuery,
+  AlertRule,
+  AlertRuleRequest,
+  LogEntry,
+} from '../types';
+
+// Rule with its matchers prepared once instead of on every log entry
+interface CompiledRule {
+  rule: AlertRule;
+  topicFilter?: string;
+  messagePattern?: RegExp;
+}
+
+// Sliding window and cooldown for one rule and device
+interface AlertState {
+  matches: number[];
+  cooldownUntil?: number;
+}
+
+// How often states with no recent matches and no cooldown are dropped
+const SWEEP_INTERVAL = 60 * 1000;
+
+@Injectable()
+export class AlertsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AlertsService.name);
+  private rules: CompiledRule[] = [];
+  private readonly states = new Map<string, AlertState>();
+  private history: AlertEvent[] = [];
+  private removeListener?: () => void;
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    @Inject(configuration.KEY)
+    private readonly config: ConfigType<typeof configuration>,
+    private readonly logStreamService: LogStreamService,
+    private readonly mqttService: MqttSubscriberService,
+  ) {}
+
+  onModuleInit(): void {
+    this.load();
+    this.removeListener = this.logStreamService.addListener((entry) =>
+      this.evaluate(entry),
+    );
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL);
+  }
+
+  onModuleDestroy(): void {
+    this.removeListener?.();
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  getRules(): AlertRule[] {
+    return this.rules.map(({ rule }) => rule);
+  }
+
+  /** Validates and adds a rule; throws when the rule cannot work as given. */
+  addRule(request: AlertRuleRequest): AlertRule {
+    if (!request.alertTopic && !request.webhookUrl) {
+      throw new Error('An alert rule needs an alertTopic or a webhookUrl');
+    }
+    if (
+      request.alertTopic &&
+      !this.mqttService.canPublish(request.alertTopic)
+    ) {
+      throw new Error(`Publishing to ${request.alertTopic} is not allowed`);
+    }
+
+    const rule: AlertRule = {
+      id: randomUUID(),
+      name: request.name,
+      deviceId: request.deviceId,
+      severity: request.severity,
+      topic: request.topic,
+      messagePattern: request.messagePattern,
+      threshold: request.threshold ?? 1,
+      windowSeconds: request.windowSeconds ?? 60,
+      cooldownSeconds: request.cooldownSeconds ?? 300,
+      alertTopic: request.alertTopic,
+      webhookUrl: request.webhookUrl,
+      createdAt: new Date(),
+    };
+
+    this.rules.push(this.compile(rule));
+    this.save();
+    this.logger.log(`Added alert rule "${rule.name}" (${rule.id})`);
+    return rule;
+  }
+
+  deleteRule(id: string): boolean {
+    const before = this.rules.length;
+    this.rules = this.rules.filter(({ rule }) => rule.id !== id);
+    if (this.rules.length === before) return false;
+
+    this.states.forEach((_, key) => {
+      if (key.startsWith(`${id}:`)) this.states.delete(key);
+    });
+    this.save();
+    return true;
+  }
+
+  getHistory(query: AlertHistoryQuery): AlertEvent[] {
+    return this.history
+      .filter(
+        (event) =>
+          (!query.ruleId || event.ruleId === query.ruleId) &&
+          (!query.deviceId || event.deviceId === query.deviceId),
+      )
+      .slice(-(query.limit ?? 100))
+      .reverse();
+  }
+
+  // Called for every published log entry, so matching stays synchronous
+  private evaluate(entry: LogEntry): void {
+    const now = Date.now();
+
+    this.rules.forEach((compiled) => {
+      if (!this.matches(compiled, entry)) return;
+
+      const { rule } = compiled;
+      const key = `${rule.id}:${entry.device_id}`;
+      const state = this.states.get(key) ?? { matches: [] };
+      this.states.set(key, state);
+
+      const windowStart = now - rule.windowSeconds * 1000;
+      state.matches = state.matches.filter((time) => time > windowStart);
+      state.matches.push(now);
+
+      if (state.matches.length < rule.threshold) return;
+      if (state.cooldownUntil && state.cooldownUntil > now) return;
+
+      const matchCount = state.matches.length;
+      state.matches = [];
+      state.cooldownUntil = now + rule.cooldownSeconds * 1000;
+      void this.trigger(rule, entry, matchCount);
+    });
+  }
+
+  // Without this, states would grow with every device that ever matched a rule
+  private sweep(): void {
+    const now = Date.now();
+    const windows = new Map(
+      this.rules.map(({ rule }) => [rule.id, rule.windowSeconds * 1000]),
+    );
+
+    this.states.forEach((state, key) => {
+      const window = windows.get(key.slice(0, key.indexOf(':'))) ?? 0;
+      const lastMatch = state.matches[state.matches.length - 1];
+      const inWindow = lastMatch !== undefined && lastMatch > now - window;
+      const coolingDown =
+        state.cooldownUntil !== undefined && state.cooldownUntil > now;
+      if (!inWindow && !coolingDown) this.states.delete(key);
+    });
+  }
+
+  private matches(compiled: CompiledRule, entry: LogEntry): boolean {
+    const { rule, topicFilter, messagePattern } = compiled;
+
+    // Never alert on alerts published back into a subscribed topic
+    if (entry.topic && entry.topic === rule.alertTopic) return false;
+    if (rule.deviceId && rule.deviceId !== entry.device_id) return false;
+    if (
+      rule.severity &&
+      LOG_SEVERITY_LEVELS.indexOf(entry.severity) <
+        LOG_SEVERITY_LEVELS.indexOf(rule.severity)
+    ) {
+      return false;
+    }
+    if (
+      topicFilter &&
+      (!entry.topic || !matchesTopicFilter(topicFilter, entry.topic))
+    ) {
+      return false;
+    }
+    if (messagePattern && !messagePattern.test(entry.message)) return false;
+    return true;
+  }
+
+  private async trigger(
+    rule: AlertRule,
+    entry: LogEntry,
+    matchCount: number,
+  ): Promise<void> {
+    const event: AlertEvent = {
+      id: randomUUID(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      deviceId: entry.device_id,
+      severity: entry.severity,
+      topic: entry.topic,
+      message: entry.message,
+      matchCount,
+      triggeredAt: new Date(),
+      actions: [],
+    };
+    this.logger.warn(
+      `Alert "${rule.name}" triggered for device ${entry.device_id} after ${matchCount} matching logs`,
+    );
+
+    // Recorded right away; action results are filled in as they complete
+    this.history.push(event);
+    const overflow = this.history.length - this.config.alerts.historySize;
+    if (overflow > 0) this.history.splice(0, overflow);
+
+    const payload = {
+      alert: rule.name,
+      ruleId: rule.id,
+      deviceId: event.deviceId,
+      severity: event.severity,
+      topic: event.topic,
+      message: event.message,
+      matchCount,
+      windowSeconds: rule.windowSeconds,
+      triggeredAt: event.triggeredAt,
+    };
+
+    if (rule.alertTopic) {
+      const alertTopic = rule.alertTopic;
+      event.actions.push(
+        await this.runAction('mqtt', alertTopic, async () => {
+          // The allowlist may have changed since the rule was created
+          if (!this.mqttService.canPublish(alertTopic)) {
+            throw new Error(`Publishing to ${alertTopic} is not allowed`);
+          }
+          await this.mqttService.publish(alertTopic, payload);
+        }),
+      );
+    }
+    if (rule.webhookUrl) {
+      const webhookUrl = rule.webhookUrl;
+      event.actions.push(
+        await this.runAction('webhook', webhookUrl, async () => {
+          await axios.post(webhookUrl, payload, {
+            timeout: this.config.alerts.webhookTimeout,
+          });
+        }),
+      );
+    }
+  }
+
+  private async runAction(
+    type: AlertActionResult['type'],
+    target: string,
+    action: () => Promise<void>,
+  ): Promise<AlertActionResult> {
+    try {
+      await action();
+      return { type, target, success: true };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(
+        `Alert ${type} action to ${target} failed: ${errorMessage}`,
+      );
+      return { type, target, success: false, error: errorMessage };
+    }
+  }
+
+  private compile(rule: AlertRule): CompiledRule {
+    let messagePattern: RegExp | undefined;
+    if (rule.messagePattern) {
+      try {
+        messagePattern = new RegExp(rule.messagePattern);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Invalid messagePattern: ${errorMessage}`);
+      }
+    }
+
+    return {
+      rule,
+      topicFilter: rule.topic
+        ? parseTopicTemplate(rule.topic).filter
+        : undefined,
+      messagePattern,
+    };
+  }
+
+  private load(): void {
+    const rulesFile = this.config.alerts.rulesFile;
+    if (!rulesFile || !fs.existsSync(rulesFile)) return;
+
+    try {
+      const stored = JSON.parse(
+        fs.readFileSync(rulesFile, 'utf8'),
+      ) as AlertRule[];
+      this.rules = stored.map((rule) =>
+        this.compile({ ...rule, createdAt: new Date(rule.createdAt) }),
+      );
+      this.logger.log(
+        `Loaded ${this.rules.length} alert rules from ${rulesFile}`,
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to load alert rules: ${errorMessage}`);
+    }
+  }
+
+  private save(): void {
+    const rulesFile = this.config.alerts.rulesFile;
+    if (!rulesFile) return;
+
+    try {
+      fs.mkdirSync(path.dirname(rulesFile), { recursive: true });
+      const tmpPath = `${rulesFile}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(this.getRules(), null, 2));
+      fs.renameSync(tmpPath, rulesFile);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to persist alert rules: ${errorMessage}`);
+    }
+  }
+}
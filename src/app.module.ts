@@ -4,6 +4,15 @@ import { APP_PIPE } from '@nestjs/core';
 import { MqttModule } from './mqtt/mqtt.module';
 import { LokiModule } from './loki/loki.module';
 import { HealthModule } from './health/health.module';
+import { DeadLetterModule } from './dead-letter/dead-letter.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { LogsModule } from './logs/logs.module';
+import { LogStreamModule } from './log-stream/log-stream.module';
+import { SinksModule } from './sinks/sinks.module';
+import { AlertsModule } from './alerts/alerts.module';
+import { DevicesModule } from './devices/devices.module';
+import { AuthModule } from './auth/auth.module';
+import { RuntimeConfigModule } from './config/runtime-config.module';
 import configuration from './config/configuration';
 
 @Module({
@@ -16,6 +25,15 @@ import configuration from './config/configuration';
     MqttModule,
     LokiModule,
     HealthModule,
+    DeadLetterModule,
+    MetricsModule,
+    LogsModule,
+    LogStreamModule,
+    SinksModule,
+    AlertsModule,
+    DevicesModule,
+    AuthModule,
+    RuntimeConfigModule,
   ],
   controllers: [],
   providers: [
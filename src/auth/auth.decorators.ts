@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '../types';
+
+export const ROLE_KEY = 'auth:role';
+export const PUBLIC_KEY = 'auth:public';
+
+/** Lowest role allowed to call the route; routes default to viewer. */
+export const RequireRole = (role: Role) => SetMetadata(ROLE_KEY, role);
+
+/** Skips authentication, e.g. for liveness probes. */
+export const Public = () => SetMetadata(PUBLIC_KEY, true);
@@ -0,0 +1,160 @@
+import 'reflect-metadata';
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { createHmac } from 'crypto';
+import configuration, { AuthConfig } from '../config/configuration';
+import { Public, RequireRole } from './auth.decorators';
+import { AuthGuard } from './auth.guard';
+import { AuthService } from './auth.service';
+
+const JWT_SECRET = 'test-secret';
+
+class TestController {
+  read(): void {}
+
+  @RequireRole('operator')
+  operate(): void {}
+
+  @RequireRole('admin')
+  administer(): void {}
+
+  @Public()
+  probe(): void {}
+}
+
+@RequireRole('admin')
+class AdminController {
+  read(): void {}
+}
+
+type Route = [controller: new () => object, method: string];
+
+const routes: Record<string, Route> = {
+  viewer: [TestController, 'read'],
+  operator: [TestController, 'operate'],
+  admin: [TestController, 'administer'],
+  public: [TestController, 'probe'],
+  adminClass: [AdminController, 'read'],
+};
+
+function createGuard(overrides: Partial<AuthConfig> = {}): AuthGuard {
+  const auth: AuthConfig = {
+    ...new AuthConfig(),
+    enabled: true,
+    apiKeys: ['viewer-key=viewer', 'operator-key=operator', 'admin-key=admin'],
+    jwtSecret: JWT_SECRET,
+    ...overrides,
+  };
+  const authService = new AuthService({ auth } as ConfigType<
+    typeof configuration
+  >);
+  return new AuthGuard(authService, new Reflector());
+}
+
+function contextFor(
+  [controller, method]: Route,
+  headers: Record<string, string> = {},
+  type = 'http',
+): ExecutionContext {
+  const handler = (controller.prototype as Record<string, () => void>)[method];
+  return {
+    getType: () => type,
+    getHandler: () => handler,
+    getClass: () => controller,
+    switchToHttp: () => ({
+      getRequest: () => ({ headers, method: 'GET', path: `/${method}` }),
+    }),
+  } as unknown as ExecutionContext;
+}
+
+function statusOf(guard: AuthGuard, context: ExecutionContext): number {
+  try {
+    guard.canActivate(context);
+    return HttpStatus.OK;
+  } catch (error) {
+    if (error instanceof HttpException) return error.getStatus();
+    throw error;
+  }
+}
+
+function signToken(claims: Record<string, unknown>): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  const signature = createHmac('sha256', JWT_SECRET)
+    .update(unsigned)
+    .digest('base64url');
+  return `${unsigned}.${signature}`;
+}
+
+describe('AuthGuard', () => {
+  const guard = createGuard();
+
+  // Rows are callers, columns the role a route requires
+  const matrix: Array<
+    [string, Record<string, string>, Record<string, number>]
+  > = [
+    [
+      'anonymous',
+      {},
+      { viewer: 401, operator: 401, admin: 401, public: 200, adminClass: 401 },
+    ],
+    [
+      'viewer',
+      { 'x-api-key': 'viewer-key' },
+      { viewer: 200, operator: 403, admin: 403, public: 200, adminClass: 403 },
+    ],
+    [
+      'operator',
+      { 'x-api-key': 'operator-key' },
+      { viewer: 200, operator: 200, admin: 403, public: 200, adminClass: 403 },
+    ],
+    [
+      'admin',
+      { 'x-api-key': 'admin-key' },
+      { viewer: 200, operator: 200, admin: 200, public: 200, adminClass: 200 },
+    ],
+  ];
+
+  describe.each(matrix)('for %s callers', (_, headers, expected) => {
+    it.each(Object.keys(expected))('answers %s routes', (route) => {
+      expect(statusOf(guard, contextFor(routes[route], headers))).toBe(
+        expected[route],
+      );
+    });
+  });
+
+  it('rejects an unknown API key', () => {
+    const context = contextFor(routes.viewer, { 'x-api-key': 'wrong' });
+
+    expect(statusOf(guard, context)).toBe(HttpStatus.UNAUTHORIZED);
+  });
+
+  it('uses the highest role granted by a token', () => {
+    const token = signToken({ sub: 'nurse', roles: ['viewer', 'operator'] });
+    const headers = { authorization: `Bearer ${token}` };
+
+    expect(statusOf(guard, contextFor(routes.operator, headers))).toBe(200);
+    expect(statusOf(guard, contextFor(routes.admin, headers))).toBe(403);
+  });
+
+  it('rejects a token without a known role', () => {
+    const token = signToken({ sub: 'nurse', roles: ['guest'] });
+    const context = contextFor(routes.viewer, {
+      authorization: `Bearer ${token}`,
+    });
+
+    expect(statusOf(guard, context)).toBe(HttpStatus.UNAUTHORIZED);
+  });
+
+  it('lets every request through when authentication is disabled', () => {
+    const openGuard = createGuard({ enabled: false });
+
+    expect(statusOf(openGuard, contextFor(routes.admin))).toBe(200);
+  });
+
+  it('leaves WebSocket connections to the gateway', () => {
+    expect(statusOf(guard, contextFor(routes.admin, {}, 'ws'))).toBe(200);
+  });
+});
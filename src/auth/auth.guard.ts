@@ -0,0 +1,63 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { AuthService } from './auth.service';
+import { PUBLIC_KEY, ROLE_KEY } from './auth.decorators';
+import { AuthPrincipal, Role } from '../types';
+
+/** Global guard enforcing authentication and the role each route requires. */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  private readonly logger = new Logger(AuthGuard.name);
+
+  constructor(
+    private readonly authService: AuthService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    // WebSocket connections authenticate in the gateway instead
+    if (!this.authService.isEnabled() || context.getType() !== 'http') {
+      return true;
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(PUBLIC_KEY, targets)) {
+      return true;
+    }
+    const required =
+      this.reflector.getAllAndOverride<Role>(ROLE_KEY, targets) ?? 'viewer';
+
+    const request = context.switchToHttp().getRequest<Request>();
+    let principal: AuthPrincipal;
+    try {
+      principal = this.authService.authenticate(request.headers);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(
+        `Rejected ${request.method} ${request.path}: ${errorMessage}`,
+      );
+      throw new HttpException(errorMessage, HttpStatus.UNAUTHORIZED);
+    }
+
+    if (!this.authService.hasRole(principal, required)) {
+      this.logger.warn(
+        `Denied ${request.method} ${request.path} to ${principal.subject} (${principal.role}, needs ${required})`,
+      );
+      throw new HttpException(
+        `This action requires the ${required} role`,
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,132 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import configuration from '../config/configuration';
+import { AuthPrincipal, ROLES, Role } from '../types';
+import { JwtClaims, JwtVerifier } from './jwt-verifier';
+
+interface ApiKey {
+  digest: Buffer;
+  fingerprint: string;
+  role: Role;
+}
+
+/**
+ * Resolves the caller behind a request from an X-API-Key header or an
+ * `Authorization: Bearer` JWT, and decides whether their role is enough.
+ */
+@Injectable()
+export class AuthService {
+  private readonly apiKeys: ApiKey[];
+  private readonly jwtVerifier?: JwtVerifier;
+
+  constructor(
+    @Inject(configuration.KEY)
+    private readonly config: ConfigType<typeof configuration>,
+  ) {
+    const authConfig = this.config.auth;
+
+    // Throws on invalid keys or an unusable setup so it fails at startup
+    this.apiKeys = authConfig.apiKeys.map((entry) => this.parseApiKey(entry));
+    if (authConfig.jwtSecret || authConfig.jwksFile) {
+      this.jwtVerifier = new JwtVerifier({
+        secret: authConfig.jwtSecret,
+        jwksFile: authConfig.jwksFile,
+        issuer: authConfig.jwtIssuer,
+        audience: authConfig.jwtAudience,
+      });
+    }
+    if (authConfig.enabled && this.apiKeys.length === 0 && !this.jwtVerifier) {
+      throw new Error(
+        'Authentication is enabled but no AUTH_API_KEYS, AUTH_JWT_SECRET or AUTH_JWKS_FILE is configured',
+      );
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.config.auth.enabled;
+  }
+
+  /**
+   * Returns the caller for the given request headers. Throws when the
+   * credentials are missing or not accepted.
+   */
+  authenticate(headers: IncomingHttpHeaders): AuthPrincipal {
+    const apiKey = headers['x-api-key'];
+    if (typeof apiKey === 'string' && apiKey.length > 0) {
+      return this.authenticateApiKey(apiKey);
+    }
+
+    const authorization = headers.authorization;
+    const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+    if (match) return this.authenticateToken(match[1]);
+
+    throw new Error('Missing credentials');
+  }
+
+  hasRole(principal: AuthPrincipal, required: Role): boolean {
+    return ROLES.indexOf(principal.role) >= ROLES.indexOf(required);
+  }
+
+  private authenticateApiKey(apiKey: string): AuthPrincipal {
+    const digest = createHash('sha256').update(apiKey).digest();
+    // Compare digests so the check takes the same time for every key
+    const match = this.apiKeys.find((candidate) =>
+      timingSafeEqual(candidate.digest, digest),
+    );
+    if (!match) throw new Error('Invalid API key');
+
+    return {
+      subject: `api-key:${match.fingerprint}`,
+      role: match.role,
+      method: 'api-key',
+    };
+  }
+
+  private authenticateToken(token: string): AuthPrincipal {
+    if (!this.jwtVerifier) throw new Error('Bearer tokens are not accepted');
+
+    const claims = this.jwtVerifier.verify(token);
+    const role = this.highestRole(claims);
+    if (!role) throw new Error('Token grants no known role');
+
+    return {
+      subject: typeof claims.sub === 'string' ? claims.sub : 'unknown',
+      role,
+      method: 'jwt',
+    };
+  }
+
+  // Roles may be an array or a space or comma separated string
+  private highestRole(claims: JwtClaims): Role | undefined {
+    let value: unknown = claims;
+    for (const key of this.config.auth.rolesClaim.split('.')) {
+      value =
+        value !== null && typeof value === 'object'
+          ? (value as Record<string, unknown>)[key]
+          : undefined;
+    }
+
+    const granted = Array.isArray(value)
+      ? value.filter((role): role is string => typeof role === 'string')
+      : typeof value === 'string'
+        ? value.split(/[\s,]+/)
+        : [];
+    return [...ROLES].reverse().find((role) => granted.includes(role));
+  }
+
+  private parseApiKey(entry: string): ApiKey {
+    const separator = entry.lastIndexOf('=');
+    const key = entry.slice(0, separator);
+    const role = entry.slice(separator + 1) as Role;
+    if (separator <= 0 || !ROLES.includes(role)) {
+      throw new Error(
+        `Invalid API key entry: expected <key>=<role> with role ${ROLES.join(', ')}`,
+      );
+    }
+
+    const digest = createHash('sha256').update(key).digest();
+    return { digest, fingerprint: digest.toString('hex').slice(0, 8), role };
+  }
+}
@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import {
+  KeyObject,
+  createHmac,
+  createPublicKey,
+  timingSafeEqual,
+  verify,
+} from 'crypto';
+
+export interface JwtVerifierOptions {
+  secret?: string;
+  jwksFile?: string;
+  issuer?: string;
+  audience?: string;
+}
+
+export type JwtClaims = Record<string, unknown>;
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+interface Jwk {
+  kty?: string;
+  kid?: string;
+  use?: string;
+  [key: string]: unknown;
+}
+
+// Allowance for clocks that drift between the issuer and this service
+const CLOCK_SKEW_SECONDS = 30;
+
+/**
+ * Verifies HS256 tokens against a shared secret and RS256 tokens against
+ * the RSA keys of a local JWKS file. Any other algorithm, including "none",
+ * is rejected. `verify()` throws with the reason a token is not accepted.
+ */
+export class JwtVerifier {
+  private keys = new Map<string | undefined, KeyObject>();
+  private jwksModifiedAt = 0;
+
+  constructor(private readonly options: JwtVerifierOptions) {
+    // Throws on an unreadable JWKS file so misconfiguration fails at startup
+    if (options.jwksFile) this.loadJwks(options.jwksFile);
+  }
+
+  verify(token: string): JwtClaims {
+    const parts = token.split('.');
+    if (parts.length !== 3) throw new Error('Malformed token');
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+    const header = decodeSegment(encodedHeader) as JwtHeader;
+    const signingInput = `${encodedHeader}.${encodedPayload}`;
+    const signature = Buffer.from(encodedSignature, 'base64url');
+
+    switch (header.alg) {
+      case 'HS256':
+        this.verifyHs256(signingInput, signature);
+        break;
+      case 'RS256':
+        this.verifyRs256(signingInput, signature, header.kid);
+        break;
+      default:
+        throw new Error(`Unsupported token algorithm ${header.alg}`);
+    }
+
+    const claims = decodeSegment(encodedPayload);
+    this.checkClaims(claims);
+    return claims;
+  }
+
+  private verifyHs256(signingInput: string, signature: Buffer): void {
+    if (!this.options.secret) throw new Error('HS256 tokens are not accepted');
+
+    const expected = createHmac('sha256', this.options.secret)
+      .update(signingInput)
+      .digest();
+    if (
+      expected.length !== signature.length ||
+      !timingSafeEqual(expected, signature)
+    ) {
+      throw new Error('Invalid token signature');
+    }
+  }
+
+  private verifyRs256(
+    signingInput: string,
+    signature: Buffer,
+    kid: string | undefined,
+  ): void {
+    const jwksFile = this.options.jwksFile;
+    if (!jwksFile) throw new Error('RS256 tokens are not accepted');
+
+    let key = this.findKey(kid);
+    // Pick up rotated keys without a restart
+    if (!key && this.reloadJwks(jwksFile)) key = this.findKey(kid);
+    if (!key) throw new Error(`Unknown signing key ${kid ?? '(no kid)'}`);
+
+    if (!verify('RSA-SHA256', Buffer.from(signingInput), key, signature)) {
+      throw new Error('Invalid token signature');
+    }
+  }
+
+  // Without a kid the token may only use the file's one and only key
+  private findKey(kid: string | undefined): KeyObject | undefined {
+    if (kid !== undefined) return this.keys.get(kid);
+    if (this.keys.size !== 1) return undefined;
+    const [onlyKey] = this.keys.values();
+    return onlyKey;
+  }
+
+  private checkClaims(claims: JwtClaims): void {
+    const now = Date.now() / 1000;
+
+    if (
+      typeof claims.exp === 'number' &&
+      now > claims.exp + CLOCK_SKEW_SECONDS
+    ) {
+      throw new Error('Token has expired');
+    }
+    if (
+      typeof claims.nbf === 'number' &&
+      now < claims.nbf - CLOCK_SKEW_SECONDS
+    ) {
+      throw new Error('Token is not valid yet');
+    }
+    if (this.options.issuer && claims.iss !== this.options.issuer) {
+      throw new Error('Token issuer is not accepted');
+    }
+
+    const audience = this.options.audience;
+    if (audience) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(audience)) {
+        throw new Error('Token audience is not accepted');
+      }
+    }
+  }
+
+  private reloadJwks(jwksFile: string): boolean {
+    try {
+      if (fs.statSync(jwksFile).mtimeMs === this.jwksModifiedAt) return false;
+      this.loadJwks(jwksFile);
+      return true;
+    } catch {
+      // Keep the keys already loaded
+      return false;
+    }
+  }
+
+  private loadJwks(jwksFile: string): void {
+    const modifiedAt = fs.statSync(jwksFile).mtimeMs;
+    const jwks = JSON.parse(fs.readFileSync(jwksFile, 'utf8')) as {
+      keys?: Jwk[];
+    };
+
+    const keys = new Map<string | undefined, KeyObject>();
+    (jwks.keys ?? [])
+      .filter((jwk) => jwk.kty === 'RSA' && (!jwk.use || jwk.use === 'sig'))
+      .forEach((jwk) => {
+        try {
+          keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error';
+          throw new Error(
+            `Invalid key ${jwk.kid ?? '(no kid)'} in ${jwksFile}: ${errorMessage}`,
+          );
+        }
+      });
+    if (keys.size === 0) {
+      throw new Error(`No RSA signing keys found in ${jwksFile}`);
+    }
+
+    this.keys = keys;
+    this.jwksModifiedAt = modifiedAt;
+  }
+}
+
+function decodeSegment(segment: string): JwtClaims {
+  try {
+    const decoded: unknown = JSON.parse(
+      Buffer.from(segment, 'base64url').toString('utf8'),
+    );
+    if (decoded !== null && typeof decoded === 'object') {
+      return decoded as JwtClaims;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('Malformed token');
+}
@@ -1,14 +1,65 @@
 import { registerAs } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
 import {
   IsString,
   IsNumber,
   IsOptional,
   IsArray,
   IsUrl,
+  IsBoolean,
+  IsIn,
   Min,
   Max,
+  ValidateNested,
+  ValidationError,
+  validateSync,
 } from 'class-validator';
-import { Transform, Type } from 'class-transformer';
+import { Transform, Type, plainToInstance } from 'class-transformer';
+
+export type WalFsyncPolicy = 'always' | 'interval' | 'never';
+
+export type LokiEncoding = 'json' | 'json-gzip' | 'protobuf';
+
+// Where metadata that is not a stream label ends up
+export type LokiMetadataMode = 'structured' | 'line';
+
+export type RedactionMode = 'mask' | 'hash' | 'remove';
+
+export type IngestionOverflowPolicy =
+  | 'backpressure'
+  | 'drop-newest'
+  | 'drop-oldest';
+
+// Each PEM value is a file path or the PEM text itself
+export class TlsConfig {
+  // CA bundle trusted in addition to the system roots
+  @IsOptional()
+  @IsString()
+  ca?: string;
+
+  // Client certificate and key for mutual TLS
+  @IsOptional()
+  @IsString()
+  cert?: string;
+
+  @IsOptional()
+  @IsString()
+  key?: string;
+
+  @IsOptional()
+  @IsString()
+  passphrase?: string;
+
+  @IsBoolean()
+  rejectUnauthorized: boolean = true;
+
+  // SNI name, when it differs from the host connected to
+  @IsOptional()
+  @IsString()
+  servername?: string;
+}
 
 export class MqttConfig {
   @IsString()
@@ -31,15 +82,57 @@ export class MqttConfig {
   @IsString()
   password?: string;
 
+  // {hostname} is replaced so every replica gets its own client ID
   @IsString()
   clientId: string = 'smtrack-logging-subscriber';
 
+  // 4 is MQTT 3.1.1, 5 is MQTT v5
+  @IsIn([3, 4, 5])
+  @Type(() => Number)
+  protocolVersion: 3 | 4 | 5 = 4;
+
+  // Replicas in the same group share the log topics through $share/<group>/
+  @IsOptional()
+  @IsString()
+  sharedGroup?: string;
+
+  // false keeps the session and queued QoS 1 messages across restarts
+  @IsBoolean()
+  cleanSession: boolean = true;
+
+  // Seconds the broker keeps a persistent v5 session after disconnecting
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  sessionExpiryInterval: number = 3600;
+
   @IsArray()
   @Transform(({ value }) =>
     typeof value === 'string' ? value.split(',').map((s) => s.trim()) : value,
   )
   topics: string[] = ['smtrack/+/logs'];
 
+  // Subscriptions changed through the API; replaces topics when it exists
+  @IsOptional()
+  @IsString()
+  subscriptionsFile?: string;
+
+  // "<topic filter>=<decoder>" entries, first match wins
+  @IsArray()
+  @IsString({ each: true })
+  decoderRules: string[] = [];
+
+  @IsString()
+  defaultDecoder: string = 'json';
+
+  @IsOptional()
+  @IsString()
+  protobufDescriptor?: string;
+
+  @IsOptional()
+  @IsString()
+  protobufMessageType?: string;
+
   @IsNumber()
   @Min(1000)
   @Max(60000)
@@ -51,6 +144,15 @@ export class MqttConfig {
   @Max(120000)
   @Type(() => Number)
   connectTimeout: number = 30000;
+
+  @ValidateNested()
+  @Type(() => TlsConfig)
+  tls: TlsConfig = new TlsConfig();
+
+  // Topic filters POST /mqtt/publish may publish to; empty allows any topic
+  @IsArray()
+  @IsString({ each: true })
+  publishTopics: string[] = [];
 }
 
 export class LokiConfig {
@@ -65,6 +167,20 @@ export class LokiConfig {
   @IsString()
   password?: string;
 
+  // Sent as "Authorization: Bearer <token>" instead of basic auth
+  @IsOptional()
+  @IsString()
+  bearerToken?: string;
+
+  // "<header>=<value>" entries sent with every Loki request
+  @IsArray()
+  @IsString({ each: true })
+  headers: string[] = [];
+
+  @ValidateNested()
+  @Type(() => TlsConfig)
+  tls: TlsConfig = new TlsConfig();
+
   @IsNumber()
   @Min(1)
   @Max(1000)
@@ -82,6 +198,373 @@ export class LokiConfig {
   @Max(30000)
   @Type(() => Number)
   timeout: number = 10000;
+
+  @IsNumber()
+  @Min(100)
+  @Type(() => Number)
+  retryBaseDelay: number = 1000;
+
+  @IsNumber()
+  @Min(1000)
+  @Type(() => Number)
+  retryMaxDelay: number = 60000;
+
+  @IsIn(['json', 'json-gzip', 'protobuf'])
+  encoding: LokiEncoding = 'json';
+
+  @IsBoolean()
+  walEnabled: boolean = false;
+
+  @IsString()
+  walDirectory: string = './data/loki-wal';
+
+  @IsNumber()
+  @Min(1048576)
+  @Type(() => Number)
+  walMaxBytes: number = 268435456;
+
+  @IsNumber()
+  @Min(65536)
+  @Type(() => Number)
+  walSegmentBytes: number = 8388608;
+
+  @IsIn(['always', 'interval', 'never'])
+  walFsync: WalFsyncPolicy = 'interval';
+
+  // Metadata keys that may become stream labels
+  @IsArray()
+  @IsString({ each: true })
+  labelAllowlist: string[] = [];
+
+  @IsNumber()
+  @Min(1)
+  @Max(1024)
+  @Type(() => Number)
+  labelMaxLength: number = 128;
+
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  labelMaxCardinality: number = 500;
+
+  @IsIn(['structured', 'line'])
+  metadataMode: LokiMetadataMode = 'line';
+
+  // X-Scope-OrgID for logs no tenant rule matches; unset for single-tenant Loki
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+
+  // "<topic filter>=<tenant>" or "label:<name>=<value>=<tenant>", first match wins
+  @IsArray()
+  @IsString({ each: true })
+  tenantRules: string[] = [];
+
+  // Each tenant has its own buffer; past the limit logs share the default's
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  maxTenants: number = 100;
+}
+
+export class DeadLetterConfig {
+  @IsNumber()
+  @Min(1)
+  @Max(100000)
+  @Type(() => Number)
+  maxEntries: number = 1000;
+
+  @IsOptional()
+  @IsString()
+  storagePath?: string;
+
+  // Changes are written on a timer so a burst of failures is one write
+  @IsNumber()
+  @Min(100)
+  @Type(() => Number)
+  saveInterval: number = 1000;
+}
+
+export class SinksConfig {
+  // Sinks the pipeline writes to: loki, file, stdout, elasticsearch, webhook
+  @IsArray()
+  @IsIn(['loki', 'file', 'stdout', 'elasticsearch', 'webhook'], { each: true })
+  enabled: string[] = ['loki'];
+
+  // "<sink>=<selector>" entries; a sink without routes receives every log
+  @IsArray()
+  @IsString({ each: true })
+  routes: string[] = [];
+
+  @IsNumber()
+  @Min(1)
+  @Max(10000)
+  @Type(() => Number)
+  batchSize: number = 100;
+
+  @IsNumber()
+  @Min(100)
+  @Max(60000)
+  @Type(() => Number)
+  flushInterval: number = 5000;
+
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  maxBufferSize: number = 10000;
+
+  @IsNumber()
+  @Min(100)
+  @Type(() => Number)
+  retryBaseDelay: number = 1000;
+
+  @IsNumber()
+  @Min(1000)
+  @Type(() => Number)
+  retryMaxDelay: number = 60000;
+
+  @IsNumber()
+  @Min(1000)
+  @Type(() => Number)
+  timeout: number = 10000;
+
+  @IsString()
+  filePath: string = './data/logs/smtrack.ndjson';
+
+  @IsNumber()
+  @Min(1024)
+  @Type(() => Number)
+  fileMaxBytes: number = 104857600;
+
+  // Rotated files kept next to the active one
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  fileMaxFiles: number = 5;
+
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  elasticsearchUrl?: string;
+
+  // Daily indices are named <index>-YYYY.MM.DD
+  @IsString()
+  elasticsearchIndex: string = 'smtrack-logs';
+
+  @IsOptional()
+  @IsString()
+  elasticsearchUsername?: string;
+
+  @IsOptional()
+  @IsString()
+  elasticsearchPassword?: string;
+
+  @IsOptional()
+  @IsString()
+  elasticsearchApiKey?: string;
+
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  webhookUrl?: string;
+
+  // "<header>=<value>" entries sent with every webhook request
+  @IsArray()
+  @IsString({ each: true })
+  webhookHeaders: string[] = [];
+}
+
+export class AlertsConfig {
+  // JSON file rules are loaded from and saved to (in-memory only when unset)
+  @IsOptional()
+  @IsString()
+  rulesFile?: string;
+
+  @IsNumber()
+  @Min(1)
+  @Max(100000)
+  @Type(() => Number)
+  historySize: number = 500;
+
+  @IsNumber()
+  @Min(1000)
+  @Type(() => Number)
+  webhookTimeout: number = 10000;
+}
+
+export class RateLimitConfig {
+  @IsBoolean()
+  enabled: boolean = false;
+
+  // Sustained messages per second and burst size, per device and severity
+  @IsNumber()
+  @Min(0.01)
+  @Type(() => Number)
+  deviceRate: number = 10;
+
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  deviceBurst: number = 50;
+
+  // Sustained messages per second and burst size, per topic and severity
+  @IsNumber()
+  @Min(0.01)
+  @Type(() => Number)
+  topicRate: number = 100;
+
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  topicBurst: number = 500;
+
+  // Severities that are never throttled
+  @IsArray()
+  @IsIn(['debug', 'info', 'warning', 'error', 'critical'], { each: true })
+  exemptSeverities: string[] = ['error', 'critical'];
+
+  // Keep every Nth suppressed message as a sample; 0 drops them all
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  sampleEvery: number = 0;
+
+  @IsNumber()
+  @Min(1000)
+  @Type(() => Number)
+  summaryInterval: number = 60000;
+}
+
+export class DedupConfig {
+  @IsBoolean()
+  enabled: boolean = false;
+
+  // How long a device/timestamp/message triple is remembered as a duplicate
+  @IsNumber()
+  @Min(1000)
+  @Type(() => Number)
+  window: number = 60000;
+
+  // A run of identical messages ends after this long without a repeat
+  @IsNumber()
+  @Min(100)
+  @Type(() => Number)
+  repeatWindow: number = 10000;
+
+  // Longest a run is held before its collapsed entry is emitted anyway
+  @IsNumber()
+  @Min(1000)
+  @Type(() => Number)
+  maxRunDuration: number = 60000;
+}
+
+export class RedactionConfig {
+  @IsBoolean()
+  enabled: boolean = false;
+
+  @IsArray()
+  @IsIn(['email', 'ip', 'mac', 'bearer', 'secret'], { each: true })
+  detectors: string[] = ['email', 'ip', 'mac', 'bearer', 'secret'];
+
+  // Extra regular expressions redacted from messages and metadata values
+  @IsArray()
+  @IsString({ each: true })
+  patterns: string[] = [];
+
+  // Dotted paths such as metadata.wifi.password; * matches any one key
+  @IsArray()
+  @IsString({ each: true })
+  fields: string[] = [];
+
+  @IsIn(['mask', 'hash', 'remove'])
+  mode: RedactionMode = 'mask';
+
+  // Salt for hash mode so hashes cannot be reversed with a lookup table
+  @IsOptional()
+  @IsString()
+  hashSalt?: string;
+}
+
+export class IngestionConfig {
+  // MQTT messages held between the client and the log pipeline
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  queueSize: number = 10000;
+
+  // Messages processed at once; one topic is always processed in order
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  concurrency: number = 4;
+
+  // backpressure stops acking and reading from the broker while full
+  @IsIn(['backpressure', 'drop-newest', 'drop-oldest'])
+  overflowPolicy: IngestionOverflowPolicy = 'backpressure';
+}
+
+export class AuthConfig {
+  // Off by default so existing deployments keep working until configured
+  @IsBoolean()
+  enabled: boolean = false;
+
+  // "<key>=<role>" entries accepted in the X-API-Key header
+  @IsArray()
+  @IsString({ each: true })
+  apiKeys: string[] = [];
+
+  // Shared secret for HS256 tokens
+  @IsOptional()
+  @IsString()
+  jwtSecret?: string;
+
+  // JWKS file with the public keys for RS256 tokens
+  @IsOptional()
+  @IsString()
+  jwksFile?: string;
+
+  @IsOptional()
+  @IsString()
+  jwtIssuer?: string;
+
+  @IsOptional()
+  @IsString()
+  jwtAudience?: string;
+
+  // Claim holding the roles; dotted paths reach nested claims
+  @IsString()
+  rolesClaim: string = 'roles';
+}
+
+export class DevicesConfig {
+  @IsOptional()
+  @IsString()
+  storagePath?: string;
+
+  // The registry changes with every message, so it is saved on a timer
+  @IsNumber()
+  @Min(1000)
+  @Type(() => Number)
+  saveInterval: number = 30000;
+
+  // Silence after which a device is reported silent; 0 disables detection
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  silenceThreshold: number = 0;
+
+  // Per topic overrides as <topic filter>=<milliseconds>; first match wins
+  @IsArray()
+  @IsString({ each: true })
+  silenceRules: string[] = [];
+
+  @IsNumber()
+  @Min(1000)
+  @Type(() => Number)
+  silenceCheckInterval: number = 10000;
+
+  // Topic template with {deviceId} carrying online/offline and Last Wills
+  @IsOptional()
+  @IsString()
+  statusTopic?: string;
 }
 
 export class AppConfig {
@@ -94,47 +577,351 @@ export class AppConfig {
   @IsString()
   environment: string = 'development';
 
+  @ValidateNested()
   @Type(() => MqttConfig)
   mqtt: MqttConfig = new MqttConfig();
 
+  @ValidateNested()
   @Type(() => LokiConfig)
   loki: LokiConfig = new LokiConfig();
+
+  @ValidateNested()
+  @Type(() => DeadLetterConfig)
+  deadLetter: DeadLetterConfig = new DeadLetterConfig();
+
+  @ValidateNested()
+  @Type(() => SinksConfig)
+  sinks: SinksConfig = new SinksConfig();
+
+  @ValidateNested()
+  @Type(() => AlertsConfig)
+  alerts: AlertsConfig = new AlertsConfig();
+
+  @ValidateNested()
+  @Type(() => RateLimitConfig)
+  rateLimit: RateLimitConfig = new RateLimitConfig();
+
+  @ValidateNested()
+  @Type(() => DedupConfig)
+  dedup: DedupConfig = new DedupConfig();
+
+  @ValidateNested()
+  @Type(() => RedactionConfig)
+  redaction: RedactionConfig = new RedactionConfig();
+
+  @ValidateNested()
+  @Type(() => DevicesConfig)
+  devices: DevicesConfig = new DevicesConfig();
+
+  @ValidateNested()
+  @Type(() => IngestionConfig)
+  ingestion: IngestionConfig = new IngestionConfig();
+
+  @ValidateNested()
+  @Type(() => AuthConfig)
+  auth: AuthConfig = new AuthConfig();
 }
 
-export default registerAs('app', (): AppConfig => {
-  const config = new AppConfig();
+type EnvParser = (raw: string) => unknown;
+
+const asString: EnvParser = (raw) => raw;
+const asNumber: EnvParser = (raw) => Number(raw);
+// Anything but true/false is kept as text so validation reports it
+const asBoolean: EnvParser = (raw) =>
+  raw === 'true' ? true : raw === 'false' ? false : raw;
+const asList =
+  (separator = ','): EnvParser =>
+  (raw) =>
+    raw
+      .split(separator)
+      .map((s) => s.trim())
+      .filter((s) => s.length > 0);
 
-  // Map environment variables
-  config.port = parseInt(process.env.PORT || '3000');
-  config.environment = process.env.NODE_ENV || 'development';
+// Environment variable each setting came from, for validation messages
+const envSources = new WeakMap<object, Map<string, string>>();
+
+// Set environment variables override the config file; empty ones are ignored
+function fromEnv<T extends object>(
+  target: T,
+  key: keyof T & string,
+  name: string,
+  parse: EnvParser,
+): void {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return;
+  // A section the file set to something else is reported by validation
+  if (typeof target !== 'object' || target === null) return;
+
+  (target as Record<string, unknown>)[key] = parse(raw);
+  const sources = envSources.get(target) ?? new Map<string, string>();
+  sources.set(key, name);
+  envSources.set(target, sources);
+}
+
+function applyEnvironment(config: AppConfig): void {
+  fromEnv(config, 'port', 'PORT', asNumber);
+  fromEnv(config, 'environment', 'NODE_ENV', asString);
 
   // MQTT configuration
-  config.mqtt.host = process.env.MQTT_HOST || 'localhost';
-  config.mqtt.port = parseInt(process.env.MQTT_PORT || '1883');
-  config.mqtt.protocol = process.env.MQTT_PROTOCOL || 'mqtt';
-  config.mqtt.username = process.env.MQTT_USERNAME;
-  config.mqtt.password = process.env.MQTT_PASSWORD;
-  config.mqtt.clientId =
-    process.env.MQTT_CLIENT_ID || 'smtrack-logging-subscriber';
-  config.mqtt.topics = process.env.MQTT_TOPICS?.split(',').map((s) =>
-    s.trim(),
-  ) || ['smtrack/+/logs'];
-  config.mqtt.reconnectPeriod = parseInt(
-    process.env.MQTT_RECONNECT_PERIOD || '5000',
+  const mqtt = config.mqtt;
+  fromEnv(mqtt, 'host', 'MQTT_HOST', asString);
+  fromEnv(mqtt, 'port', 'MQTT_PORT', asNumber);
+  fromEnv(mqtt, 'protocol', 'MQTT_PROTOCOL', asString);
+  fromEnv(mqtt, 'username', 'MQTT_USERNAME', asString);
+  fromEnv(mqtt, 'password', 'MQTT_PASSWORD', asString);
+  fromEnv(mqtt, 'clientId', 'MQTT_CLIENT_ID', asString);
+  fromEnv(mqtt, 'protocolVersion', 'MQTT_PROTOCOL_VERSION', asNumber);
+  fromEnv(mqtt, 'sharedGroup', 'MQTT_SHARED_GROUP', asString);
+  fromEnv(mqtt, 'cleanSession', 'MQTT_CLEAN_SESSION', asBoolean);
+  fromEnv(
+    mqtt,
+    'sessionExpiryInterval',
+    'MQTT_SESSION_EXPIRY_INTERVAL',
+    asNumber,
   );
-  config.mqtt.connectTimeout = parseInt(
-    process.env.MQTT_CONNECT_TIMEOUT || '30000',
+  fromEnv(mqtt, 'topics', 'MQTT_TOPICS', asList());
+  fromEnv(mqtt, 'subscriptionsFile', 'MQTT_SUBSCRIPTIONS_FILE', asString);
+  fromEnv(mqtt, 'decoderRules', 'MQTT_DECODERS', asList());
+  fromEnv(mqtt, 'defaultDecoder', 'MQTT_DEFAULT_DECODER', asString);
+  fromEnv(mqtt, 'protobufDescriptor', 'MQTT_PROTOBUF_DESCRIPTOR', asString);
+  fromEnv(mqtt, 'protobufMessageType', 'MQTT_PROTOBUF_MESSAGE_TYPE', asString);
+  fromEnv(mqtt, 'reconnectPeriod', 'MQTT_RECONNECT_PERIOD', asNumber);
+  fromEnv(mqtt, 'connectTimeout', 'MQTT_CONNECT_TIMEOUT', asNumber);
+  fromEnv(mqtt.tls, 'ca', 'MQTT_TLS_CA', asString);
+  fromEnv(mqtt.tls, 'cert', 'MQTT_TLS_CERT', asString);
+  fromEnv(mqtt.tls, 'key', 'MQTT_TLS_KEY', asString);
+  fromEnv(mqtt.tls, 'passphrase', 'MQTT_TLS_PASSPHRASE', asString);
+  fromEnv(
+    mqtt.tls,
+    'rejectUnauthorized',
+    'MQTT_TLS_REJECT_UNAUTHORIZED',
+    asBoolean,
   );
+  fromEnv(mqtt.tls, 'servername', 'MQTT_TLS_SERVERNAME', asString);
+  fromEnv(mqtt, 'publishTopics', 'MQTT_PUBLISH_TOPICS', asList());
 
   // Loki configuration
-  config.loki.url = process.env.LOKI_URL || 'http://localhost:3100';
-  config.loki.username = process.env.LOKI_USERNAME;
-  config.loki.password = process.env.LOKI_PASSWORD;
-  config.loki.batchSize = parseInt(process.env.LOKI_BATCH_SIZE || '10');
-  config.loki.flushInterval = parseInt(
-    process.env.LOKI_FLUSH_INTERVAL || '5000',
+  const loki = config.loki;
+  fromEnv(loki, 'url', 'LOKI_URL', asString);
+  fromEnv(loki, 'username', 'LOKI_USERNAME', asString);
+  fromEnv(loki, 'password', 'LOKI_PASSWORD', asString);
+  fromEnv(loki, 'bearerToken', 'LOKI_BEARER_TOKEN', asString);
+  fromEnv(loki, 'headers', 'LOKI_HEADERS', asList());
+  fromEnv(loki.tls, 'ca', 'LOKI_TLS_CA', asString);
+  fromEnv(loki.tls, 'cert', 'LOKI_TLS_CERT', asString);
+  fromEnv(loki.tls, 'key', 'LOKI_TLS_KEY', asString);
+  fromEnv(loki.tls, 'passphrase', 'LOKI_TLS_PASSPHRASE', asString);
+  fromEnv(
+    loki.tls,
+    'rejectUnauthorized',
+    'LOKI_TLS_REJECT_UNAUTHORIZED',
+    asBoolean,
+  );
+  fromEnv(loki.tls, 'servername', 'LOKI_TLS_SERVERNAME', asString);
+  fromEnv(loki, 'batchSize', 'LOKI_BATCH_SIZE', asNumber);
+  fromEnv(loki, 'flushInterval', 'LOKI_FLUSH_INTERVAL', asNumber);
+  fromEnv(loki, 'timeout', 'LOKI_TIMEOUT', asNumber);
+  fromEnv(loki, 'retryBaseDelay', 'LOKI_RETRY_BASE_DELAY', asNumber);
+  fromEnv(loki, 'retryMaxDelay', 'LOKI_RETRY_MAX_DELAY', asNumber);
+  fromEnv(loki, 'encoding', 'LOKI_ENCODING', asString);
+  fromEnv(loki, 'walEnabled', 'LOKI_WAL_ENABLED', asBoolean);
+  fromEnv(loki, 'walDirectory', 'LOKI_WAL_DIR', asString);
+  fromEnv(loki, 'walMaxBytes', 'LOKI_WAL_MAX_BYTES', asNumber);
+  fromEnv(loki, 'walSegmentBytes', 'LOKI_WAL_SEGMENT_BYTES', asNumber);
+  fromEnv(loki, 'walFsync', 'LOKI_WAL_FSYNC', asString);
+  fromEnv(loki, 'labelAllowlist', 'LOKI_LABEL_ALLOWLIST', asList());
+  fromEnv(loki, 'labelMaxLength', 'LOKI_LABEL_MAX_LENGTH', asNumber);
+  fromEnv(loki, 'labelMaxCardinality', 'LOKI_LABEL_MAX_CARDINALITY', asNumber);
+  fromEnv(loki, 'metadataMode', 'LOKI_METADATA_MODE', asString);
+  fromEnv(loki, 'tenantId', 'LOKI_TENANT_ID', asString);
+  fromEnv(loki, 'tenantRules', 'LOKI_TENANT_RULES', asList());
+  fromEnv(loki, 'maxTenants', 'LOKI_MAX_TENANTS', asNumber);
+
+  // Dead-letter configuration
+  fromEnv(config.deadLetter, 'maxEntries', 'DEAD_LETTER_MAX_ENTRIES', asNumber);
+  fromEnv(config.deadLetter, 'storagePath', 'DEAD_LETTER_FILE', asString);
+  fromEnv(
+    config.deadLetter,
+    'saveInterval',
+    'DEAD_LETTER_SAVE_INTERVAL',
+    asNumber,
+  );
+
+  // Output sink configuration
+  const sinks = config.sinks;
+  fromEnv(sinks, 'enabled', 'LOG_SINKS', asList());
+  fromEnv(sinks, 'routes', 'SINK_ROUTES', asList());
+  fromEnv(sinks, 'batchSize', 'SINK_BATCH_SIZE', asNumber);
+  fromEnv(sinks, 'flushInterval', 'SINK_FLUSH_INTERVAL', asNumber);
+  fromEnv(sinks, 'maxBufferSize', 'SINK_MAX_BUFFER_SIZE', asNumber);
+  fromEnv(sinks, 'retryBaseDelay', 'SINK_RETRY_BASE_DELAY', asNumber);
+  fromEnv(sinks, 'retryMaxDelay', 'SINK_RETRY_MAX_DELAY', asNumber);
+  fromEnv(sinks, 'timeout', 'SINK_TIMEOUT', asNumber);
+  fromEnv(sinks, 'filePath', 'SINK_FILE_PATH', asString);
+  fromEnv(sinks, 'fileMaxBytes', 'SINK_FILE_MAX_BYTES', asNumber);
+  fromEnv(sinks, 'fileMaxFiles', 'SINK_FILE_MAX_FILES', asNumber);
+  fromEnv(sinks, 'elasticsearchUrl', 'ELASTICSEARCH_URL', asString);
+  fromEnv(sinks, 'elasticsearchIndex', 'ELASTICSEARCH_INDEX', asString);
+  fromEnv(sinks, 'elasticsearchUsername', 'ELASTICSEARCH_USERNAME', asString);
+  fromEnv(sinks, 'elasticsearchPassword', 'ELASTICSEARCH_PASSWORD', asString);
+  fromEnv(sinks, 'elasticsearchApiKey', 'ELASTICSEARCH_API_KEY', asString);
+  fromEnv(sinks, 'webhookUrl', 'SINK_WEBHOOK_URL', asString);
+  fromEnv(sinks, 'webhookHeaders', 'SINK_WEBHOOK_HEADERS', asList());
+
+  // Alert configuration
+  fromEnv(config.alerts, 'rulesFile', 'ALERT_RULES_FILE', asString);
+  fromEnv(config.alerts, 'historySize', 'ALERT_HISTORY_SIZE', asNumber);
+  fromEnv(config.alerts, 'webhookTimeout', 'ALERT_WEBHOOK_TIMEOUT', asNumber);
+
+  // Rate limiting configuration
+  const rateLimit = config.rateLimit;
+  fromEnv(rateLimit, 'enabled', 'RATE_LIMIT_ENABLED', asBoolean);
+  fromEnv(rateLimit, 'deviceRate', 'RATE_LIMIT_DEVICE_RATE', asNumber);
+  fromEnv(rateLimit, 'deviceBurst', 'RATE_LIMIT_DEVICE_BURST', asNumber);
+  fromEnv(rateLimit, 'topicRate', 'RATE_LIMIT_TOPIC_RATE', asNumber);
+  fromEnv(rateLimit, 'topicBurst', 'RATE_LIMIT_TOPIC_BURST', asNumber);
+  fromEnv(
+    rateLimit,
+    'exemptSeverities',
+    'RATE_LIMIT_EXEMPT_SEVERITIES',
+    asList(),
+  );
+  fromEnv(rateLimit, 'sampleEvery', 'RATE_LIMIT_SAMPLE_EVERY', asNumber);
+  fromEnv(
+    rateLimit,
+    'summaryInterval',
+    'RATE_LIMIT_SUMMARY_INTERVAL',
+    asNumber,
   );
-  config.loki.timeout = parseInt(process.env.LOKI_TIMEOUT || '10000');
 
+  // Duplicate and repeat collapsing configuration
+  fromEnv(config.dedup, 'enabled', 'DEDUP_ENABLED', asBoolean);
+  fromEnv(config.dedup, 'window', 'DEDUP_WINDOW', asNumber);
+  fromEnv(config.dedup, 'repeatWindow', 'DEDUP_REPEAT_WINDOW', asNumber);
+  fromEnv(config.dedup, 'maxRunDuration', 'DEDUP_MAX_RUN_DURATION', asNumber);
+
+  // Redaction configuration; patterns are split on ; since regexes use commas
+  const redaction = config.redaction;
+  fromEnv(redaction, 'enabled', 'REDACTION_ENABLED', asBoolean);
+  fromEnv(redaction, 'detectors', 'REDACTION_DETECTORS', asList());
+  fromEnv(redaction, 'patterns', 'REDACTION_PATTERNS', asList(';'));
+  fromEnv(redaction, 'fields', 'REDACTION_FIELDS', asList());
+  fromEnv(redaction, 'mode', 'REDACTION_MODE', asString);
+  fromEnv(redaction, 'hashSalt', 'REDACTION_HASH_SALT', asString);
+
+  // Device registry configuration
+  const devices = config.devices;
+  fromEnv(devices, 'storagePath', 'DEVICE_REGISTRY_FILE', asString);
+  fromEnv(devices, 'saveInterval', 'DEVICE_REGISTRY_SAVE_INTERVAL', asNumber);
+  fromEnv(devices, 'silenceThreshold', 'DEVICE_SILENCE_THRESHOLD', asNumber);
+  fromEnv(devices, 'silenceRules', 'DEVICE_SILENCE_RULES', asList());
+  fromEnv(
+    devices,
+    'silenceCheckInterval',
+    'DEVICE_SILENCE_CHECK_INTERVAL',
+    asNumber,
+  );
+  fromEnv(devices, 'statusTopic', 'DEVICE_STATUS_TOPIC', asString);
+
+  // Ingestion queue configuration
+  const ingestion = config.ingestion;
+  fromEnv(ingestion, 'queueSize', 'INGESTION_QUEUE_SIZE', asNumber);
+  fromEnv(ingestion, 'concurrency', 'INGESTION_CONCURRENCY', asNumber);
+  fromEnv(ingestion, 'overflowPolicy', 'INGESTION_OVERFLOW_POLICY', asString);
+
+  // Authentication configuration
+  const auth = config.auth;
+  fromEnv(auth, 'enabled', 'AUTH_ENABLED', asBoolean);
+  fromEnv(auth, 'apiKeys', 'AUTH_API_KEYS', asList());
+  fromEnv(auth, 'jwtSecret', 'AUTH_JWT_SECRET', asString);
+  fromEnv(auth, 'jwksFile', 'AUTH_JWKS_FILE', asString);
+  fromEnv(auth, 'jwtIssuer', 'AUTH_JWT_ISSUER', asString);
+  fromEnv(auth, 'jwtAudience', 'AUTH_JWT_AUDIENCE', asString);
+  fromEnv(auth, 'rolesClaim', 'AUTH_JWT_ROLES_CLAIM', asString);
+}
+
+export function getConfigFilePath(): string | undefined {
+  return process.env.CONFIG_FILE || undefined;
+}
+
+// YAML unless the file ends in .json; keys mirror AppConfig, e.g. loki.batchSize
+function readConfigFile(configFile: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    const text = fs.readFileSync(configFile, 'utf8');
+    parsed =
+      path.extname(configFile).toLowerCase() === '.json'
+        ? JSON.parse(text)
+        : yaml.load(text);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(
+      `Failed to read config file ${configFile}: ${errorMessage}`,
+    );
+  }
+
+  // An empty file leaves every setting at its default
+  if (parsed === undefined || parsed === null) return {};
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(
+      `Invalid config file ${configFile}: expected a mapping of settings`,
+    );
+  }
+  return parsed as Record<string, unknown>;
+}
+
+// A wrong type also fails the range checks; only the type error is reported
+const TYPE_CONSTRAINTS = ['isNumber', 'isBoolean', 'isString', 'isArray'];
+
+// "loki.batchSize (LOKI_BATCH_SIZE="abc"): batchSize must be a number ..."
+function describeErrors(errors: ValidationError[], parent?: string): string[] {
+  return errors.flatMap((error) => {
+    const settingPath = parent ? `${parent}.${error.property}` : error.property;
+    const nested = describeErrors(error.children ?? [], settingPath);
+    if (!error.constraints) return nested;
+
+    const envName = error.target
+      ? envSources.get(error.target)?.get(error.property)
+      : undefined;
+    const source = envName
+      ? ` (${envName}=${JSON.stringify(process.env[envName])})`
+      : '';
+    const constraints = Object.entries(error.constraints);
+    const typeErrors = constraints.filter(([name]) =>
+      TYPE_CONSTRAINTS.includes(name),
+    );
+    return [
+      ...(typeErrors.length > 0 ? typeErrors : constraints).map(
+        ([, message]) => `${settingPath}${source}: ${message}`,
+      ),
+      ...nested,
+    ];
+  });
+}
+
+/**
+ * Builds the settings from the class defaults, then the YAML or JSON file
+ * named by CONFIG_FILE, then environment variables, each overriding the
+ * one before. Throws listing every invalid or unknown setting.
+ */
+export function loadAppConfig(): AppConfig {
+  const configFile = getConfigFilePath();
+  const config = configFile
+    ? plainToInstance(AppConfig, readConfigFile(configFile))
+    : new AppConfig();
+  applyEnvironment(config);
+
+  const errors = validateSync(config, {
+    whitelist: true,
+    forbidNonWhitelisted: true,
+  });
+  if (errors.length > 0) {
+    const problems = describeErrors(errors).map((problem) => `  - ${problem}`);
+    throw new Error(`Invalid configuration:\n${problems.join('\n')}`);
+  }
   return config;
-});
+}
+
+// Throws on invalid settings so misconfiguration fails at startup
+export default registerAs('app', (): AppConfig => loadAppConfig());
@@ -0,0 +1,13 @@
+import { Controller, Get } from '@nestjs/common';
+import { RuntimeConfigService } from './runtime-config.service';
+import { EffectiveConfigResponse } from '../types';
+
+@Controller('config')
+export class RuntimeConfigController {
+  constructor(private readonly runtimeConfigService: RuntimeConfigService) {}
+
+  @Get()
+  getConfig(): EffectiveConfigResponse {
+    return this.runtimeConfigService.getEffectiveConfig();
+  }
+}
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import { X509Certificate } from 'crypto';
+import { TlsConfig } from './configuration';
+import { CertificateStatus } from '../types';
+
+/** Options accepted by both `tls.connect()` and `https.Agent`. */
+export interface TlsOptions {
+  ca?: string;
+  cert?: string;
+  key?: string;
+  passphrase?: string;
+  rejectUnauthorized: boolean;
+  servername?: string;
+}
+
+interface LoadedCertificate {
+  usage: CertificateStatus['usage'];
+  certificate: X509Certificate;
+}
+
+const PEM_CERTIFICATE =
+  /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Resolves a TLS config into PEM text and parses its certificates.
+ * Throws on an unreadable file or certificate so misconfiguration fails at
+ * startup rather than on the first handshake.
+ */
+export class TlsCredentials {
+  readonly options: TlsOptions;
+  private readonly certificates: LoadedCertificate[];
+
+  constructor(config: TlsConfig, name: string) {
+    this.options = {
+      ca: readPem(config.ca, `${name} CA`),
+      cert: readPem(config.cert, `${name} client certificate`),
+      key: readPem(config.key, `${name} client key`),
+      passphrase: config.passphrase,
+      rejectUnauthorized: config.rejectUnauthorized,
+      servername: config.servername,
+    };
+
+    if (!!this.options.cert !== !!this.options.key) {
+      throw new Error(
+        `Invalid ${name} TLS configuration: a client certificate needs a key and vice versa`,
+      );
+    }
+
+    this.certificates = [
+      ...parseCertificates(this.options.ca, `${name} CA`).map(
+        (certificate) => ({ usage: 'ca' as const, certificate }),
+      ),
+      // Only the leaf; intermediates after it are sent along as they are
+      ...parseCertificates(this.options.cert, `${name} client certificate`)
+        .slice(0, 1)
+        .map((certificate) => ({ usage: 'client' as const, certificate })),
+    ];
+  }
+
+  /** Whether any TLS setting differs from the platform defaults. */
+  isConfigured(): boolean {
+    const { rejectUnauthorized, ...rest } = this.options;
+    return !rejectUnauthorized || Object.values(rest).some(Boolean);
+  }
+
+  getCertificates(): CertificateStatus[] {
+    const now = Date.now();
+    return this.certificates.map(({ usage, certificate }) => {
+      const validTo = new Date(certificate.validTo);
+      return {
+        usage,
+        subject: certificate.subject.replace(/\n/g, ', '),
+        issuer: certificate.issuer.replace(/\n/g, ', '),
+        validFrom: new Date(certificate.validFrom),
+        validTo,
+        daysRemaining: Math.floor((validTo.getTime() - now) / DAY_MS),
+        expired: validTo.getTime() <= now,
+      };
+    });
+  }
+}
+
+// Accepts a file path or inline PEM; env vars may carry newlines as "\n"
+function readPem(value: string | undefined, label: string): string | undefined {
+  if (!value) return undefined;
+  if (value.includes('-----BEGIN')) return value.replace(/\\n/g, '\n');
+
+  try {
+    return fs.readFileSync(value, 'utf8');
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Cannot read ${label} from ${value}: ${errorMessage}`);
+  }
+}
+
+function parseCertificates(
+  pem: string | undefined,
+  label: string,
+): X509Certificate[] {
+  if (!pem) return [];
+
+  const blocks: string[] = pem.match(PEM_CERTIFICATE) ?? [];
+  if (blocks.length === 0) {
+    throw new Error(`Invalid ${label}: no PEM certificate found`);
+  }
+  return blocks.map((block) => {
+    try {
+      return new X509Certificate(block);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Invalid ${label}: ${errorMessage}`);
+    }
+  });
+}
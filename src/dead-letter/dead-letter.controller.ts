@@ -0,0 +1,107 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Query,
+  HttpStatus,
+  HttpException,
+  ValidationPipe,
+  UsePipes,
+} from '@nestjs/common';
+import {
+  DeadLetterService,
+  ReplayInProgressError,
+} from './dead-letter.service';
+import { RequireRole } from '../auth/auth.decorators';
+import { DeadLetter, DeadLetterQuery, DeadLetterSummary } from '../types';
+
+@Controller('dead-letters')
+export class DeadLetterController {
+  constructor(private readonly deadLetterService: DeadLetterService) {}
+
+  // Dead letters hold raw payloads, which redaction has not touched
+  @Get()
+  @RequireRole('operator')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  list(@Query() query: DeadLetterQuery): {
+    total: number;
+    items: DeadLetterSummary[];
+  } {
+    return this.deadLetterService.list(query);
+  }
+
+  @Get(':id')
+  @RequireRole('operator')
+  get(@Param('id') id: string): DeadLetter {
+    const letter = this.deadLetterService.get(id);
+    if (!letter) {
+      throw new HttpException(
+        `Dead letter ${id} not found`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return letter;
+  }
+
+  @Post('replay-all')
+  @RequireRole('operator')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async replayAll(
+    @Query() query: DeadLetterQuery,
+  ): Promise<{ replayed: number; failed: number; timestamp: Date }> {
+    const result = await this.deadLetterService.replayAll(query.source);
+
+    return {
+      ...result,
+      timestamp: new Date(),
+    };
+  }
+
+  @Post(':id/replay')
+  @RequireRole('operator')
+  async replay(
+    @Param('id') id: string,
+  ): Promise<{ message: string; timestamp: Date }> {
+    let replayed: boolean;
+    try {
+      replayed = await this.deadLetterService.replay(id);
+    } catch (error) {
+      if (error instanceof ReplayInProgressError) {
+        throw new HttpException(error.message, HttpStatus.CONFLICT);
+      }
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      throw new HttpException(
+        `Failed to replay dead letter: ${errorMessage}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+
+    if (!replayed) {
+      throw new HttpException(
+        `Dead letter ${id} not found`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return {
+      message: `Dead letter ${id} replayed successfully`,
+      timestamp: new Date(),
+    };
+  }
+
+  @Delete()
+  @RequireRole('operator')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  purge(@Query() query: DeadLetterQuery): {
+    purged: number;
+    timestamp: Date;
+  } {
+    return {
+      purged: this.deadLetterService.purge(query.source),
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import 'reflect-metadata';
+import { ConfigType } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import configuration from '../config/configuration';
+import {
+  DeadLetterService,
+  ReplayInProgressError,
+} from './dead-letter.service';
+
+describe('DeadLetterService', () => {
+  let directory: string;
+  let storagePath: string;
+  let service: DeadLetterService;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'dead-letters-'));
+    storagePath = path.join(directory, 'dead-letters.json');
+    service = new DeadLetterService({
+      deadLetter: { maxEntries: 10, storagePath, saveInterval: 60000 },
+    } as ConfigType<typeof configuration>);
+    service.onModuleInit();
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const addLetter = () =>
+    service.add({ source: 'loki', payload: '[]', reason: 'rejected' });
+
+  it('writes changes on the timer instead of on every add', async () => {
+    addLetter();
+    addLetter();
+    expect(fs.existsSync(storagePath)).toBe(false);
+
+    await service.onModuleDestroy();
+    const stored = JSON.parse(
+      fs.readFileSync(storagePath, 'utf8'),
+    ) as unknown[];
+    expect(stored).toHaveLength(2);
+  });
+
+  it('leaves payloads out of listings and keeps the file owner-only', async () => {
+    const letter = addLetter();
+
+    const { items } = service.list({});
+    expect(items).toHaveLength(1);
+    expect(items[0]).not.toHaveProperty('payload');
+    expect(service.get(letter.id)?.payload).toBe('[]');
+
+    await service.onModuleDestroy();
+    expect(fs.statSync(storagePath).mode & 0o777).toBe(0o600);
+  });
+
+  it('rejects a second replay of a letter still being replayed', async () => {
+    let finishReplay = () => {};
+    const handler = jest.fn(
+      () => new Promise<void>((resolve) => (finishReplay = resolve)),
+    );
+    service.registerReplayHandler('loki', handler);
+    const letter = addLetter();
+
+    const first = service.replay(letter.id);
+    await expect(service.replay(letter.id)).rejects.toBeInstanceOf(
+      ReplayInProgressError,
+    );
+    await expect(service.replayAll()).resolves.toEqual({
+      replayed: 0,
+      failed: 0,
+    });
+
+    finishReplay();
+    await expect(first).resolves.toBe(true);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(service.count()).toBe(0);
+  });
+
+  it('keeps a letter whose replay failed and allows another attempt', async () => {
+    service.registerReplayHandler('loki', () =>
+      Promise.reject(new Error('Loki unavailable')),
+    );
+    const letter = addLetter();
+
+    await expect(service.replay(letter.id)).rejects.toThrow('Loki unavailable');
+    await expect(service.replay(letter.id)).rejects.toThrow('Loki unavailable');
+    expect(service.get(letter.id)).toMatchObject({
+      attempts: 3,
+      reason: 'Loki unavailable',
+    });
+  });
+});
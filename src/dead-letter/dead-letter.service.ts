@@ -0,0 +1,255 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DeadLetter,
+  DeadLetterQuery,
+  DeadLetterSource,
+  DeadLetterSummary,
+} from '../types';
+import configuration from '../config/configuration';
+
+export type DeadLetterReplayHandler = (letter: DeadLetter) => Promise<void>;
+
+export interface DeadLetterInput {
+  source: DeadLetterSource;
+  topic?: string;
+  payload: string;
+  contentType?: string;
+  userProperties?: Record<string, string | string[]>;
+  reason: string;
+  attempts?: number;
+}
+
+export class ReplayInProgressError extends Error {
+  constructor(id: string) {
+    super(`Dead letter ${id} is already being replayed`);
+    this.name = 'ReplayInProgressError';
+  }
+}
+
+@Injectable()
+export class DeadLetterService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DeadLetterService.name);
+  private readonly replayHandlers = new Map<
+    DeadLetterSource,
+    DeadLetterReplayHandler
+  >();
+  private readonly replaying = new Set<string>();
+  private letters: DeadLetter[] = [];
+  private dirty = false;
+  private saving?: Promise<void>;
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(
+    @Inject(configuration.KEY)
+    private readonly config: ConfigType<typeof configuration>,
+  ) {}
+
+  onModuleInit(): void {
+    this.load();
+    if (this.config.deadLetter.storagePath) {
+      this.saveTimer = setInterval(
+        () => void this.save(),
+        this.config.deadLetter.saveInterval,
+      );
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.saveTimer) {
+      clearInterval(this.saveTimer);
+    }
+    await this.save();
+  }
+
+  // Producers register how their dead letters are fed back into the pipeline
+  registerReplayHandler(
+    source: DeadLetterSource,
+    handler: DeadLetterReplayHandler,
+  ): void {
+    this.replayHandlers.set(source, handler);
+  }
+
+  add(input: DeadLetterInput): DeadLetter {
+    const now = new Date();
+    const letter: DeadLetter = {
+      id: randomUUID(),
+      source: input.source,
+      topic: input.topic,
+      payload: input.payload,
+      contentType: input.contentType,
+      userProperties: input.userProperties,
+      reason: input.reason,
+      attempts: input.attempts ?? 1,
+      firstFailedAt: now,
+      lastFailedAt: now,
+    };
+
+    this.letters.push(letter);
+
+    const overflow = this.letters.length - this.config.deadLetter.maxEntries;
+    if (overflow > 0) {
+      this.letters.splice(0, overflow);
+      this.logger.warn(`Dead-letter store full, discarded ${overflow} oldest`);
+    }
+
+    this.logger.warn(
+      `Dead-lettered ${letter.source} message${letter.topic ? ` from ${letter.topic}` : ''}: ${letter.reason}`,
+    );
+    this.dirty = true;
+    return letter;
+  }
+
+  list(query: DeadLetterQuery): { total: number; items: DeadLetterSummary[] } {
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? 100;
+    const matching = query.source
+      ? this.letters.filter((letter) => letter.source === query.source)
+      : this.letters;
+
+    return {
+      total: matching.length,
+      items: matching
+        .slice(offset, offset + limit)
+        .map((letter) => summarize(letter)),
+    };
+  }
+
+  get(id: string): DeadLetter | undefined {
+    return this.letters.find((letter) => letter.id === id);
+  }
+
+  count(): number {
+    return this.letters.length;
+  }
+
+  /**
+   * Replays a single dead letter; it is removed only if the replay succeeds.
+   * A letter is replayed once at a time so it cannot be fed back twice.
+   */
+  async replay(id: string): Promise<boolean> {
+    const letter = this.get(id);
+    if (!letter) return false;
+    if (this.replaying.has(id)) throw new ReplayInProgressError(id);
+
+    const handler = this.replayHandlers.get(letter.source);
+    if (!handler) {
+      throw new Error(`No replay handler registered for ${letter.source}`);
+    }
+
+    this.replaying.add(id);
+    try {
+      await handler(letter);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      letter.attempts++;
+      letter.lastFailedAt = new Date();
+      letter.reason = errorMessage;
+      this.dirty = true;
+      throw error;
+    } finally {
+      this.replaying.delete(id);
+    }
+
+    this.letters = this.letters.filter((item) => item.id !== id);
+    this.dirty = true;
+    return true;
+  }
+
+  async replayAll(
+    source?: DeadLetterSource,
+  ): Promise<{ replayed: number; failed: number }> {
+    const ids = this.letters
+      .filter((letter) => !source || letter.source === source)
+      .filter((letter) => !this.replaying.has(letter.id))
+      .map((letter) => letter.id);
+
+    let replayed = 0;
+    let failed = 0;
+    for (const id of ids) {
+      try {
+        if (await this.replay(id)) replayed++;
+      } catch {
+        failed++;
+      }
+    }
+
+    this.logger.log(`Replayed ${replayed} dead letters, ${failed} failed`);
+    return { replayed, failed };
+  }
+
+  purge(source?: DeadLetterSource): number {
+    const before = this.letters.length;
+    this.letters = source
+      ? this.letters.filter((letter) => letter.source !== source)
+      : [];
+    this.dirty = true;
+    return before - this.letters.length;
+  }
+
+  private load(): void {
+    const storagePath = this.config.deadLetter.storagePath;
+    if (!storagePath || !fs.existsSync(storagePath)) return;
+
+    try {
+      const stored = JSON.parse(
+        fs.readFileSync(storagePath, 'utf8'),
+      ) as DeadLetter[];
+      this.letters = stored.map((letter) => ({
+        ...letter,
+        firstFailedAt: new Date(letter.firstFailedAt),
+        lastFailedAt: new Date(letter.lastFailedAt),
+      }));
+      this.logger.log(
+        `Loaded ${this.letters.length} dead letters from ${storagePath}`,
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to load dead letters: ${errorMessage}`);
+    }
+  }
+
+  // Waits for a write still in progress so the final save is not skipped
+  private async save(): Promise<void> {
+    while (this.saving) await this.saving;
+    const storagePath = this.config.deadLetter.storagePath;
+    if (!storagePath || !this.dirty) return;
+
+    this.dirty = false;
+    this.saving = this.write(storagePath, JSON.stringify(this.letters));
+    await this.saving;
+    this.saving = undefined;
+  }
+
+  private async write(storagePath: string, data: string): Promise<void> {
+    try {
+      await fs.promises.mkdir(path.dirname(storagePath), { recursive: true });
+      const tmpPath = `${storagePath}.tmp`;
+      // Payloads are stored unredacted so that they replay as received
+      await fs.promises.writeFile(tmpPath, data, { mode: 0o600 });
+      await fs.promises.rename(tmpPath, storagePath);
+    } catch (error) {
+      this.dirty = true;
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to persist dead letters: ${errorMessage}`);
+    }
+  }
+}
+
+function summarize(letter: DeadLetter): DeadLetterSummary {
+  const summary: Partial<DeadLetter> = { ...letter };
+  delete summary.payload;
+  return summary as DeadLetterSummary;
+}
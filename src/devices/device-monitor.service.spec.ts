@@ -0,0 +1,169 @@
+import 'reflect-metadata';
+import { Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import configuration from '../config/configuration';
+import { LogStreamService } from '../log-stream/log-stream.service';
+import { LogSinkService } from '../sinks/log-sink.service';
+import { LogSeverity } from '../types';
+import { DeviceMonitorService } from './device-monitor.service';
+import { DevicesService } from './devices.service';
+
+describe('DeviceMonitorService', () => {
+  let devices: DevicesService;
+  let write: jest.Mock;
+  let monitor: DeviceMonitorService;
+
+  const config = (
+    overrides: Partial<ConfigType<typeof configuration>['devices']> = {},
+  ) =>
+    ({
+      mqtt: {},
+      devices: {
+        saveInterval: 60000,
+        silenceThreshold: 60000,
+        silenceRules: [],
+        silenceCheckInterval: 10000,
+        statusTopic: 'devices/{deviceId}/status',
+        ...overrides,
+      },
+    }) as ConfigType<typeof configuration>;
+
+  const createMonitor = (
+    overrides: Partial<ConfigType<typeof configuration>['devices']> = {},
+  ) => {
+    monitor = new DeviceMonitorService(
+      config(overrides),
+      devices,
+      { write } as unknown as LogSinkService,
+      { publish: jest.fn() } as unknown as LogStreamService,
+    );
+    monitor.onModuleInit();
+  };
+
+  const record = (deviceId: string, topic = 'devices/logs') =>
+    devices.record(
+      [{ deviceId, message: 'reading', severity: LogSeverity.INFO }],
+      topic,
+      'json',
+    );
+
+  const messages = () =>
+    write.mock.calls.map(
+      ([entries]: [{ message: string }[]]) => entries[0].message,
+    );
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    write = jest.fn(() => Promise.resolve());
+    devices = new DevicesService(config());
+  });
+
+  afterEach(() => {
+    monitor.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('reports a silent device and its recovery', () => {
+    createMonitor();
+    record('sensor-1');
+
+    jest.advanceTimersByTime(50000);
+    expect(devices.get('sensor-1')?.status).toBe('online');
+
+    jest.advanceTimersByTime(10000);
+    expect(devices.get('sensor-1')?.status).toBe('silent');
+
+    record('sensor-1');
+    expect(messages()).toEqual([
+      'device sensor-1 silent for 1m',
+      'device sensor-1 back online after being silent for 1m',
+    ]);
+  });
+
+  it('counts silence of devices known before startup from startup', () => {
+    record('sensor-1');
+    // The process was down for an hour before the monitor started
+    jest.advanceTimersByTime(60 * 60 * 1000);
+    createMonitor();
+
+    jest.advanceTimersByTime(50000);
+    expect(devices.get('sensor-1')?.status).toBe('online');
+
+    jest.advanceTimersByTime(10000);
+    expect(devices.get('sensor-1')?.status).toBe('silent');
+  });
+
+  it('uses the threshold of the first rule matching the last topic', () => {
+    createMonitor({ silenceRules: ['meters/#=600000'] });
+    record('meter-1', 'meters/logs');
+    record('sensor-1');
+
+    jest.advanceTimersByTime(60000);
+    expect(devices.get('meter-1')?.status).toBe('online');
+    expect(devices.get('sensor-1')?.status).toBe('silent');
+  });
+
+  it('marks devices offline from the status topic', () => {
+    createMonitor();
+    record('sensor-1');
+
+    expect(
+      monitor.handleStatusMessage(
+        'devices/sensor-1/status',
+        Buffer.from('{"status": "offline"}'),
+      ),
+    ).toBe(true);
+    expect(devices.get('sensor-1')?.status).toBe('offline');
+    expect(
+      monitor.handleStatusMessage('devices/sensor-1/logs', Buffer.from('x')),
+    ).toBe(false);
+    expect(messages()).toEqual(['device sensor-1 went offline']);
+  });
+
+  it('turns silence and status monitoring off for shared subscriptions', () => {
+    const settings = config();
+    settings.mqtt = { sharedGroup: 'smtrack' } as typeof settings.mqtt;
+    monitor = new DeviceMonitorService(
+      settings,
+      devices,
+      { write } as unknown as LogSinkService,
+      { publish: jest.fn() } as unknown as LogStreamService,
+    );
+    monitor.onModuleInit();
+    record('sensor-1');
+
+    expect(monitor.getStatusTopicFilter()).toBeUndefined();
+    expect(
+      monitor.handleStatusMessage(
+        'devices/sensor-1/status',
+        Buffer.from('offline'),
+      ),
+    ).toBe(false);
+    jest.advanceTimersByTime(120000);
+    expect(devices.get('sensor-1')?.status).toBe('online');
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  it('rejects a status topic without a device ID placeholder', () => {
+    createMonitor();
+
+    expect(
+      () =>
+        new DeviceMonitorService(
+          config({ statusTopic: 'devices/status' }),
+          devices,
+          { write } as unknown as LogSinkService,
+          { publish: jest.fn() } as unknown as LogStreamService,
+        ),
+    ).toThrow('it needs a {deviceId} placeholder');
+  });
+});
@@ -0,0 +1,271 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import configuration from '../config/configuration';
+import { LogStreamService } from '../log-stream/log-stream.service';
+import { LogSinkService } from '../sinks/log-sink.service';
+import { matchesTopicFilter } from '../mqtt/topic-matcher';
+import {
+  DEVICE_ID_PLACEHOLDER,
+  TopicTemplate,
+  matchTopicTemplate,
+  parseTopicTemplate,
+} from '../mqtt/topic-template';
+import { DeviceRecord, DeviceStatus, LogEntry, LogSeverity } from '../types';
+import { DevicesService } from './devices.service';
+
+interface SilenceRule {
+  filter: string;
+  threshold: number;
+}
+
+const OFFLINE_PAYLOADS = ['offline', 'disconnected', 'dead', 'lost'];
+const ONLINE_PAYLOADS = ['online', 'connected', 'alive'];
+
+/**
+ * Reports devices that stop logging. A device goes silent once it has sent
+ * nothing for its expected interval, and offline as soon as its Last Will
+ * (or any offline message) arrives on the status topic. Both, and the
+ * recovery when it logs again, are written as synthetic log entries.
+ */
+@Injectable()
+export class DeviceMonitorService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DeviceMonitorService.name);
+  private readonly silenceRules: SilenceRule[];
+  private readonly statusTemplate?: TopicTemplate;
+  // Replicas in a shared subscription each see only part of every device's
+  // logs, so one would report devices silent that another hears, and every
+  // replica would report the same status change
+  private readonly sharedSubscription: boolean;
+  private checkTimer?: NodeJS.Timeout;
+  private removeListener?: () => void;
+  private startedAt = Date.now();
+
+  constructor(
+    @Inject(configuration.KEY)
+    private readonly config: ConfigType<typeof configuration>,
+    private readonly devicesService: DevicesService,
+    private readonly logSinkService: LogSinkService,
+    private readonly logStreamService: LogStreamService,
+  ) {
+    // Throws on invalid rules or templates so misconfiguration fails at startup
+    this.silenceRules = this.config.devices.silenceRules.map((rule) =>
+      this.parseSilenceRule(rule),
+    );
+
+    this.sharedSubscription = Boolean(this.config.mqtt.sharedGroup);
+    const statusTopic = this.config.devices.statusTopic;
+    if (statusTopic) {
+      const statusTemplate = parseTopicTemplate(statusTopic);
+      const hasDeviceId = statusTemplate.levels.some(
+        (level) =>
+          level.kind === 'placeholder' && level.name === DEVICE_ID_PLACEHOLDER,
+      );
+      if (!hasDeviceId) {
+        throw new Error(
+          `Invalid device status topic "${statusTopic}": it needs a {${DEVICE_ID_PLACEHOLDER}} placeholder`,
+        );
+      }
+      if (!this.sharedSubscription) this.statusTemplate = statusTemplate;
+    }
+  }
+
+  onModuleInit(): void {
+    this.startedAt = Date.now();
+    this.removeListener = this.devicesService.addStatusListener(
+      (device, previousStatus) => this.onStatusChange(device, previousStatus),
+    );
+
+    const monitored =
+      this.config.devices.silenceThreshold > 0 ||
+      this.silenceRules.some((rule) => rule.threshold > 0);
+
+    if (
+      this.sharedSubscription &&
+      (monitored || this.config.devices.statusTopic)
+    ) {
+      this.logger.warn(
+        'Silence and status topic monitoring are disabled because MQTT_SHARED_GROUP is set',
+      );
+      return;
+    }
+
+    if (monitored) {
+      this.checkTimer = setInterval(
+        () => this.checkSilence(),
+        this.config.devices.silenceCheckInterval,
+      );
+    }
+  }
+
+  onModuleDestroy(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+    }
+    this.removeListener?.();
+  }
+
+  /** Subscription filter for the status topic, if one is configured. */
+  getStatusTopicFilter(): string | undefined {
+    return this.statusTemplate?.filter;
+  }
+
+  /**
+   * Handles a message on the status topic. Returns false when the topic is
+   * not a status topic, so the caller processes it as a log instead.
+   */
+  handleStatusMessage(topic: string, payload: Buffer): boolean {
+    if (!this.statusTemplate) return false;
+
+    const captured = matchTopicTemplate(this.statusTemplate, topic);
+    if (!captured) return false;
+
+    const deviceId = captured[DEVICE_ID_PLACEHOLDER];
+    const status = this.parseStatusPayload(payload);
+    if (!status) {
+      this.logger.warn(`Ignoring unrecognised status message on ${topic}`);
+      return true;
+    }
+
+    if (!this.devicesService.get(deviceId)) {
+      this.logger.debug(`Status for unknown device ${deviceId} ignored`);
+      return true;
+    }
+
+    this.devicesService.setStatus(deviceId, status);
+    return true;
+  }
+
+  private checkSilence(): void {
+    const now = Date.now();
+
+    this.devicesService.all().forEach((device) => {
+      if (device.status !== 'online') return;
+
+      // Devices loaded from the registry were not heard from while this
+      // process was down, so their silence is counted from startup
+      const quietSince = Math.max(device.lastSeen.getTime(), this.startedAt);
+      const threshold = this.thresholdFor(device);
+      if (threshold > 0 && now - quietSince >= threshold) {
+        this.devicesService.setStatus(device.deviceId, 'silent');
+      }
+    });
+  }
+
+  private onStatusChange(
+    device: DeviceRecord,
+    previousStatus: DeviceStatus,
+  ): void {
+    const quietFor = Date.now() - device.lastSeen.getTime();
+    let message: string;
+    let severity: LogSeverity;
+
+    if (device.status === 'silent') {
+      message = `device ${device.deviceId} silent for ${formatDuration(quietFor)}`;
+      severity = LogSeverity.WARNING;
+    } else if (device.status === 'offline') {
+      message = `device ${device.deviceId} went offline`;
+      severity = LogSeverity.WARNING;
+    } else {
+      message = `device ${device.deviceId} back online after being ${previousStatus} for ${formatDuration(quietFor)}`;
+      severity = LogSeverity.INFO;
+    }
+
+    this.logger.log(message);
+    void this.emit({
+      message,
+      device_id: device.deviceId,
+      severity,
+      timestamp: new Date(),
+      labels: {
+        severity,
+        device_id: device.deviceId,
+        source: 'smtrack-device-monitor',
+      },
+      metadata: {
+        status: device.status,
+        previous_status: previousStatus,
+        last_seen: device.lastSeen.toISOString(),
+      },
+    });
+  }
+
+  private async emit(entry: LogEntry): Promise<void> {
+    this.logStreamService.publish(entry);
+    try {
+      await this.logSinkService.write([entry]);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to write device status log: ${errorMessage}`);
+    }
+  }
+
+  private thresholdFor(device: DeviceRecord): number {
+    const lastTopic = device.lastTopic;
+    const rule = lastTopic
+      ? this.silenceRules.find((candidate) =>
+          matchesTopicFilter(candidate.filter, lastTopic),
+        )
+      : undefined;
+    return rule ? rule.threshold : this.config.devices.silenceThreshold;
+  }
+
+  // Accepts plain text like "offline" or JSON like {"status": "offline"}
+  private parseStatusPayload(payload: Buffer): DeviceStatus | undefined {
+    let value = payload.toString().trim();
+    try {
+      const parsed: unknown = JSON.parse(value);
+      if (
+        parsed !== null &&
+        typeof parsed === 'object' &&
+        'status' in parsed &&
+        typeof parsed.status === 'string'
+      ) {
+        value = parsed.status;
+      } else if (typeof parsed === 'string') {
+        value = parsed;
+      }
+    } catch {
+      // Plain text status
+    }
+
+    const normalized = value.toLowerCase();
+    if (OFFLINE_PAYLOADS.includes(normalized)) return 'offline';
+    if (ONLINE_PAYLOADS.includes(normalized)) return 'online';
+    return undefined;
+  }
+
+  private parseSilenceRule(rule: string): SilenceRule {
+    const separator = rule.lastIndexOf('=');
+    const threshold = Number(rule.slice(separator + 1));
+    if (separator <= 0 || !Number.isFinite(threshold) || threshold < 0) {
+      throw new Error(
+        `Invalid device silence rule "${rule}": expected <topic filter>=<milliseconds>`,
+      );
+    }
+
+    return {
+      filter: parseTopicTemplate(rule.slice(0, separator)).filter,
+      threshold,
+    };
+  }
+}
+
+// 900000 -> "15m", 3720000 -> "1h 2m"
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  if (minutes > 0)
+    return seconds > 0 ? `${minutes}m ${seconds}s` : `${minutes}m`;
+  return `${seconds}s`;
+}
@@ -0,0 +1,38 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  HttpStatus,
+  HttpException,
+  ValidationPipe,
+  UsePipes,
+} from '@nestjs/common';
+import { DevicesService } from './devices.service';
+import { DeviceQuery, DeviceRecord } from '../types';
+
+@Controller('devices')
+export class DevicesController {
+  constructor(private readonly devicesService: DevicesService) {}
+
+  @Get()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  list(@Query() query: DeviceQuery): {
+    total: number;
+    items: DeviceRecord[];
+  } {
+    return this.devicesService.list(query);
+  }
+
+  @Get(':deviceId')
+  get(@Param('deviceId') deviceId: string): DeviceRecord {
+    const device = this.devicesService.get(deviceId);
+    if (!device) {
+      throw new HttpException(
+        `Device ${deviceId} not found`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return device;
+  }
+}
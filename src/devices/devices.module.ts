@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { DevicesService } from './devices.service';
+import { DeviceMonitorService } from './device-monitor.service';
+import { DevicesController } from './devices.controller';
+import { SinksModule } from '../sinks/sinks.module';
+import { LogStreamModule } from '../log-stream/log-stream.module';
+
+@Module({
+  imports: [SinksModule, LogStreamModule],
+  controllers: [DevicesController],
+  providers: [DevicesService, DeviceMonitorService],
+  exports: [DevicesService, DeviceMonitorService],
+})
+export class DevicesModule {}
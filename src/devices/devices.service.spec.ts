@@ -0,0 +1,127 @@
+import 'reflect-metadata';
+import { Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import configuration from '../config/configuration';
+import { IoTMessage, LogSeverity } from '../types';
+import { DevicesService } from './devices.service';
+
+describe('DevicesService', () => {
+  let directory: string;
+  let storagePath: string;
+  let service: DevicesService;
+
+  const message = (
+    deviceId: string,
+    severity = LogSeverity.INFO,
+  ): IoTMessage => ({
+    deviceId,
+    message: `${severity} from ${deviceId}`,
+    severity,
+  });
+
+  const createService = () => {
+    const created = new DevicesService({
+      devices: { storagePath, saveInterval: 60000 },
+    } as ConfigType<typeof configuration>);
+    created.onModuleInit();
+    return created;
+  };
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'devices-'));
+    storagePath = path.join(directory, 'devices.json');
+    service = createService();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('counts messages per severity and remembers the last error', () => {
+    service.record(
+      [
+        message('sensor-1'),
+        message('sensor-1', LogSeverity.ERROR),
+        message('sensor-1'),
+      ],
+      'devices/sensor-1/logs',
+      'json',
+    );
+
+    expect(service.get('sensor-1')).toMatchObject({
+      messageCount: 3,
+      messagesBySeverity: { info: 2, error: 1 },
+      lastErrorMessage: 'error from sensor-1',
+      lastTopic: 'devices/sensor-1/logs',
+      payloadFormat: 'json',
+      status: 'online',
+    });
+  });
+
+  it('filters, sorts and pages the device list', () => {
+    service.record([message('pump-2')], 'pumps/logs', 'cbor');
+    service.record(
+      [message('pump-1'), message('pump-1', LogSeverity.ERROR)],
+      'pumps/logs',
+      'cbor',
+    );
+    service.record([message('sensor-1')], 'devices/logs', 'json');
+
+    const ids = (query: Parameters<DevicesService['list']>[0]) =>
+      service.list(query).items.map((device) => device.deviceId);
+
+    expect(ids({ search: 'PUMP', sort: 'deviceId', order: 'asc' })).toEqual([
+      'pump-1',
+      'pump-2',
+    ]);
+    expect(ids({ format: 'json' })).toEqual(['sensor-1']);
+    expect(ids({ severity: LogSeverity.ERROR })).toEqual(['pump-1']);
+    expect(ids({ sort: 'messageCount', limit: 1 })).toEqual(['pump-1']);
+    expect(service.list({ limit: 1, offset: 1 }).total).toBe(3);
+  });
+
+  it('notifies status listeners only on changes', () => {
+    const previousStatuses: string[] = [];
+    service.addStatusListener((_device, previousStatus) =>
+      previousStatuses.push(previousStatus),
+    );
+    service.record([message('sensor-1')], 'devices/logs', 'json');
+
+    expect(service.setStatus('sensor-1', 'online')).toBe(false);
+    expect(service.setStatus('sensor-1', 'offline')).toBe(true);
+    expect(service.setStatus('unknown', 'offline')).toBe(false);
+    service.record([message('sensor-1')], 'devices/logs', 'json');
+
+    expect(previousStatuses).toEqual(['online', 'offline']);
+  });
+
+  it('persists the registry across restarts', () => {
+    service.record(
+      [message('sensor-1', LogSeverity.CRITICAL)],
+      'devices/logs',
+      'json',
+    );
+    service.onModuleDestroy();
+
+    service = createService();
+    const device = service.get('sensor-1');
+    expect(device?.lastSeen).toBeInstanceOf(Date);
+    expect(device?.lastErrorAt).toBeInstanceOf(Date);
+    expect(device).toMatchObject({
+      messageCount: 1,
+      lastErrorMessage: 'critical from sensor-1',
+    });
+  });
+});
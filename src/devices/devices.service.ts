@@ -0,0 +1,227 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import configuration from '../config/configuration';
+import {
+  DeviceQuery,
+  DeviceRecord,
+  DeviceStatus,
+  IoTMessage,
+  LogSeverity,
+} from '../types';
+
+export type DeviceStatusListener = (
+  device: DeviceRecord,
+  previousStatus: DeviceStatus,
+) => void;
+
+const ERROR_SEVERITIES: LogSeverity[] = [
+  LogSeverity.ERROR,
+  LogSeverity.CRITICAL,
+];
+
+@Injectable()
+export class DevicesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DevicesService.name);
+  private readonly devices = new Map<string, DeviceRecord>();
+  private readonly statusListeners = new Set<DeviceStatusListener>();
+  private dirty = false;
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(
+    @Inject(configuration.KEY)
+    private readonly config: ConfigType<typeof configuration>,
+  ) {}
+
+  onModuleInit(): void {
+    this.load();
+    if (this.config.devices.storagePath) {
+      this.saveTimer = setInterval(
+        () => this.save(),
+        this.config.devices.saveInterval,
+      );
+    }
+  }
+
+  onModuleDestroy(): void {
+    if (this.saveTimer) {
+      clearInterval(this.saveTimer);
+    }
+    this.save();
+  }
+
+  /** Records activity for the devices in one MQTT payload. */
+  record(messages: IoTMessage[], topic: string, payloadFormat: string): void {
+    const now = new Date();
+
+    messages.forEach((message) => {
+      let device = this.devices.get(message.deviceId);
+      if (!device) {
+        device = {
+          deviceId: message.deviceId,
+          firstSeen: now,
+          lastSeen: now,
+          messageCount: 0,
+          messagesBySeverity: {},
+          status: 'online',
+        };
+        this.devices.set(message.deviceId, device);
+      }
+
+      // Any log proves the device is back; listeners still see the old lastSeen
+      this.setStatus(device.deviceId, 'online');
+
+      device.lastSeen = now;
+      device.messageCount++;
+      device.messagesBySeverity[message.severity] =
+        (device.messagesBySeverity[message.severity] ?? 0) + 1;
+      device.lastTopic = topic;
+      device.payloadFormat = payloadFormat;
+
+      if (ERROR_SEVERITIES.includes(message.severity)) {
+        device.lastErrorMessage =
+          typeof message.message === 'string'
+            ? message.message
+            : JSON.stringify(message.message);
+        device.lastErrorAt = now;
+      }
+    });
+
+    if (messages.length > 0) this.dirty = true;
+  }
+
+  list(query: DeviceQuery): { total: number; items: DeviceRecord[] } {
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? 100;
+    const search = query.search?.toLowerCase();
+    const seenSince = query.seenWithin
+      ? Date.now() - query.seenWithin * 1000
+      : undefined;
+
+    const matching = Array.from(this.devices.values()).filter(
+      (device) =>
+        (!search || device.deviceId.toLowerCase().includes(search)) &&
+        (!query.format || device.payloadFormat === query.format) &&
+        (!query.status || device.status === query.status) &&
+        (!query.severity ||
+          (device.messagesBySeverity[query.severity] ?? 0) > 0) &&
+        (!seenSince || device.lastSeen.getTime() >= seenSince),
+    );
+
+    const sort = query.sort ?? 'lastSeen';
+    const direction = (query.order ?? 'desc') === 'asc' ? 1 : -1;
+    matching.sort((a, b) => {
+      const left = a[sort];
+      const right = b[sort];
+      const compared =
+        typeof left === 'string' && typeof right === 'string'
+          ? left.localeCompare(right)
+          : Number(left) - Number(right);
+      return compared * direction;
+    });
+
+    return {
+      total: matching.length,
+      items: matching.slice(offset, offset + limit),
+    };
+  }
+
+  /** Changes a device's status and notifies listeners when it differs. */
+  setStatus(deviceId: string, status: DeviceStatus): boolean {
+    const device = this.devices.get(deviceId);
+    if (!device || device.status === status) return false;
+
+    const previousStatus = device.status;
+    device.status = status;
+    device.statusChangedAt = new Date();
+    this.dirty = true;
+
+    this.statusListeners.forEach((listener) => {
+      try {
+        listener(device, previousStatus);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.logger.error(`Device status listener failed: ${errorMessage}`);
+      }
+    });
+    return true;
+  }
+
+  // In-process subscribers such as the silence monitor; returns an unsubscribe
+  addStatusListener(listener: DeviceStatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  all(): DeviceRecord[] {
+    return Array.from(this.devices.values());
+  }
+
+  get(deviceId: string): DeviceRecord | undefined {
+    return this.devices.get(deviceId);
+  }
+
+  count(): number {
+    return this.devices.size;
+  }
+
+  private load(): void {
+    const storagePath = this.config.devices.storagePath;
+    if (!storagePath || !fs.existsSync(storagePath)) return;
+
+    try {
+      const stored = JSON.parse(
+        fs.readFileSync(storagePath, 'utf8'),
+      ) as DeviceRecord[];
+      stored.forEach((device) =>
+        this.devices.set(device.deviceId, {
+          ...device,
+          firstSeen: new Date(device.firstSeen),
+          lastSeen: new Date(device.lastSeen),
+          status: device.status ?? 'online',
+          statusChangedAt: device.statusChangedAt
+            ? new Date(device.statusChangedAt)
+            : undefined,
+          lastErrorAt: device.lastErrorAt
+            ? new Date(device.lastErrorAt)
+            : undefined,
+        }),
+      );
+      this.logger.log(
+        `Loaded ${this.devices.size} devices from ${storagePath}`,
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to load device registry: ${errorMessage}`);
+    }
+  }
+
+  private save(): void {
+    const storagePath = this.config.devices.storagePath;
+    if (!storagePath || !this.dirty) return;
+
+    try {
+      fs.mkdirSync(path.dirname(storagePath), { recursive: true });
+      const tmpPath = `${storagePath}.tmp`;
+      fs.writeFileSync(
+        tmpPath,
+        JSON.stringify(Array.from(this.devices.values())),
+      );
+      fs.renameSync(tmpPath, storagePath);
+      this.dirty = false;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to persist device registry: ${errorMessage}`);
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { Controller, Get } from '@nestjs/common';
 import { HealthService, HealthStatus } from './health.service';
+import { Public } from '../auth/auth.decorators';
 
 @Controller('health')
 export class HealthController {
@@ -10,7 +11,9 @@ export class HealthController {
     return this.healthService.getHealth();
   }
 
+  // Probes stay reachable without credentials
   @Get('live')
+  @Public()
   getLiveness(): { status: string; timestamp: Date } {
     return {
       status: 'ok',
@@ -19,6 +22,7 @@ export class HealthController {
   }
 
   @Get('ready')
+  @Public()
   getReadiness(): { status: string; timestamp: Date } {
     const health = this.healthService.getHealth();
 
@@ -3,9 +3,10 @@ import { HealthController } from './health.controller';
 import { HealthService } from './health.service';
 import { MqttModule } from '../mqtt/mqtt.module';
 import { LokiModule } from '../loki/loki.module';
+import { SinksModule } from '../sinks/sinks.module';
 
 @Module({
-  imports: [MqttModule, LokiModule],
+  imports: [MqttModule, LokiModule, SinksModule],
   controllers: [HealthController],
   providers: [HealthService],
 })
@@ -1,6 +1,16 @@
 import { Injectable } from '@nestjs/common';
 import { MqttSubscriberService } from '../mqtt/mqtt-subscriber.service';
 import { LokiService } from '../loki/loki.service';
+import { LogSinkService } from '../sinks/log-sink.service';
+import {
+  CertificateStatus,
+  LogSinkStatus,
+  LokiBacklogStatus,
+  LokiServiceStatus,
+} from '../types';
+
+// Certificates this close to expiry mark the service as degraded
+const CERTIFICATE_EXPIRY_WARNING_DAYS = 30;
 
 export interface HealthStatus {
   status: 'ok' | 'error' | 'degraded';
@@ -12,12 +22,16 @@ export interface HealthStatus {
       status: 'ok' | 'error';
       connected: boolean;
       details?: string;
+      certificates: CertificateStatus[];
     };
     loki: {
       status: 'ok' | 'error' | 'degraded';
       bufferedLogs: number;
+      diskBacklog?: LokiBacklogStatus;
       details?: string;
+      certificates: CertificateStatus[];
     };
+    sinks: LogSinkStatus[];
   };
 }
 
@@ -28,6 +42,7 @@ export class HealthService {
   constructor(
     private readonly mqttService: MqttSubscriberService,
     private readonly lokiService: LokiService,
+    private readonly logSinkService: LogSinkService,
   ) {}
 
   getHealth(): HealthStatus {
@@ -38,15 +53,24 @@ export class HealthService {
       status: mqttStatus.connected ? ('ok' as const) : ('error' as const),
       connected: mqttStatus.connected,
       details: mqttStatus.lastError,
+      certificates: this.mqttService.getCertificates(),
     };
 
     const loki = {
       status: this.getLokiHealthStatus(lokiStatus),
       bufferedLogs: lokiStatus.bufferedLogs,
+      diskBacklog: lokiStatus.diskBacklog,
       details: lokiStatus.lastError,
+      certificates: this.lokiService.getCertificates(),
     };
 
-    const overallStatus = this.getOverallStatus(mqtt.status, loki.status);
+    const sinks = this.logSinkService.getStatus();
+    const overallStatus = this.getOverallStatus(
+      mqtt.status,
+      loki.status,
+      sinks,
+      [...mqtt.certificates, ...loki.certificates],
+    );
 
     return {
       status: overallStatus,
@@ -56,14 +80,14 @@ export class HealthService {
       services: {
         mqtt,
         loki,
+        sinks,
       },
     };
   }
 
-  private getLokiHealthStatus(lokiStatus: {
-    lastError?: string;
-    bufferedLogs: number;
-  }): 'ok' | 'error' | 'degraded' {
+  private getLokiHealthStatus(
+    lokiStatus: LokiServiceStatus,
+  ): 'ok' | 'error' | 'degraded' {
     if (lokiStatus.lastError) return 'error';
     if (lokiStatus.bufferedLogs > 100) return 'degraded';
     return 'ok';
@@ -72,9 +96,22 @@ export class HealthService {
   private getOverallStatus(
     mqttStatus: 'ok' | 'error',
     lokiStatus: 'ok' | 'error' | 'degraded',
+    sinks: LogSinkStatus[],
+    certificates: CertificateStatus[],
   ): 'ok' | 'error' | 'degraded' {
     if (mqttStatus === 'error' || lokiStatus === 'error') return 'error';
     if (lokiStatus === 'degraded') return 'degraded';
+    // A failing secondary sink does not stop delivery to the others
+    if (sinks.some((sink) => sink.status !== 'ok')) return 'degraded';
+    // Warn ahead of time; an expired certificate fails the connection itself
+    if (
+      certificates.some(
+        (certificate) =>
+          certificate.daysRemaining < CERTIFICATE_EXPIRY_WARNING_DAYS,
+      )
+    ) {
+      return 'degraded';
+    }
     return 'ok';
   }
 }
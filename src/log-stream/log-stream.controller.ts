@@ -0,0 +1,59 @@
+import {
+  Controller,
+  Get,
+  Query,
+  Res,
+  ValidationPipe,
+  UsePipes,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { LogStreamService } from './log-stream.service';
+import { LogStreamQuery, LogTailSubscriberStatus } from '../types';
+
+@Controller('logs/stream')
+export class LogStreamController {
+  private readonly heartbeatInterval = 15000;
+
+  constructor(private readonly logStreamService: LogStreamService) {}
+
+  @Get()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  stream(@Query() query: LogStreamQuery, @Res() response: Response): void {
+    response.setHeader('Content-Type', 'text/event-stream');
+    response.setHeader('Cache-Control', 'no-cache');
+    response.setHeader('Connection', 'keep-alive');
+    response.setHeader('X-Accel-Buffering', 'no');
+    response.flushHeaders();
+
+    // While the socket buffer is full, entries are dropped rather than queued
+    let paused = false;
+    response.on('drain', () => {
+      paused = false;
+    });
+
+    const subscription = this.logStreamService.subscribe(
+      'sse',
+      { deviceId: query.deviceId, minSeverity: query.minSeverity },
+      (entry) => {
+        if (paused) return false;
+        paused = !response.write(`data: ${JSON.stringify(entry)}\n\n`);
+        return true;
+      },
+      () => response.end(),
+    );
+
+    const heartbeat = setInterval(() => {
+      if (!paused) response.write(': heartbeat\n\n');
+    }, this.heartbeatInterval);
+
+    response.on('close', () => {
+      clearInterval(heartbeat);
+      subscription.unsubscribe();
+    });
+  }
+
+  @Get('subscribers')
+  getSubscribers(): LogTailSubscriberStatus[] {
+    return this.logStreamService.getSubscribers();
+  }
+}
@@ -0,0 +1,98 @@
+import { Logger } from '@nestjs/common';
+import {
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  WebSocketGateway,
+} from '@nestjs/websockets';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { IncomingMessage } from 'http';
+import { WebSocket } from 'ws';
+import { LogStreamService, LogTailSubscription } from './log-stream.service';
+import { AuthService } from '../auth/auth.service';
+import { LogStreamQuery } from '../types';
+
+@WebSocketGateway({ path: '/logs/ws' })
+export class LogStreamGateway
+  implements OnGatewayConnection<WebSocket>, OnGatewayDisconnect<WebSocket>
+{
+  private readonly logger = new Logger(LogStreamGateway.name);
+  private readonly subscriptions = new WeakMap<
+    WebSocket,
+    LogTailSubscription
+  >();
+  private readonly maxBufferedBytes = 1024 * 1024;
+
+  constructor(
+    private readonly logStreamService: LogStreamService,
+    private readonly authService: AuthService,
+  ) {}
+
+  // Filters come from the connection URL, e.g. /logs/ws?deviceId=TMP-001
+  handleConnection(client: WebSocket, request: IncomingMessage): void {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    if (!this.isAuthorized(request, url)) {
+      client.close(1008, 'Unauthorized');
+      return;
+    }
+
+    const filter = plainToInstance(
+      LogStreamQuery,
+      Object.fromEntries(url.searchParams),
+    );
+
+    const errors = validateSync(filter, { whitelist: true });
+    if (errors.length > 0) {
+      this.logger.warn('Rejected live tail connection: invalid filter');
+      client.close(1008, 'Invalid filter');
+      return;
+    }
+
+    const subscription = this.logStreamService.subscribe(
+      'websocket',
+      { deviceId: filter.deviceId, minSeverity: filter.minSeverity },
+      (entry) => {
+        if (
+          client.readyState !== WebSocket.OPEN ||
+          client.bufferedAmount > this.maxBufferedBytes
+        ) {
+          return false;
+        }
+        client.send(JSON.stringify(entry));
+        return true;
+      },
+      () => client.close(1001, 'Server shutting down'),
+    );
+    this.subscriptions.set(client, subscription);
+  }
+
+  // Browsers cannot set headers on a WebSocket, so the URL may carry the
+  // credentials as ?access_token=<jwt> or ?api_key=<key>
+  private isAuthorized(request: IncomingMessage, url: URL): boolean {
+    if (!this.authService.isEnabled()) return true;
+
+    const token = url.searchParams.get('access_token');
+    const apiKey = url.searchParams.get('api_key');
+    const headers = {
+      ...request.headers,
+      ...(token && { authorization: `Bearer ${token}` }),
+      ...(apiKey && { 'x-api-key': apiKey }),
+    };
+
+    try {
+      // Every role may watch the live tail
+      this.authService.authenticate(headers);
+      return true;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Rejected live tail connection: ${errorMessage}`);
+      return false;
+    }
+  }
+
+  handleDisconnect(client: WebSocket): void {
+    this.subscriptions.get(client)?.unsubscribe();
+    this.subscriptions.delete(client);
+  }
+}
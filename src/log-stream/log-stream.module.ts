@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { LogStreamService } from './log-stream.service';
+import { LogStreamController } from './log-stream.controller';
+import { LogStreamGateway } from './log-stream.gateway';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [LogStreamController],
+  providers: [LogStreamService, LogStreamGateway],
+  exports: [LogStreamService],
+})
+export class LogStreamModule {}
@@ -0,0 +1,102 @@
+import 'reflect-metadata';
+import { Logger } from '@nestjs/common';
+import { LogEntry, LogSeverity } from '../types';
+import { LogStreamService } from './log-stream.service';
+
+describe('LogStreamService', () => {
+  let service: LogStreamService;
+
+  const entry = (deviceId: string, severity: LogSeverity): LogEntry => ({
+    message: 'reading',
+    device_id: deviceId,
+    severity,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    service = new LogStreamService();
+  });
+
+  it('delivers only entries matching the device and minimum severity', () => {
+    const deliver = jest.fn(() => true);
+    service.subscribe(
+      'sse',
+      { deviceId: 'sensor-1', minSeverity: LogSeverity.WARNING },
+      deliver,
+      () => {},
+    );
+
+    service.publish(entry('sensor-1', LogSeverity.INFO));
+    service.publish(entry('sensor-2', LogSeverity.ERROR));
+    service.publish(entry('sensor-1', LogSeverity.ERROR));
+
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(deliver).toHaveBeenCalledWith(entry('sensor-1', LogSeverity.ERROR));
+  });
+
+  it('counts entries a slow or failing connection could not take', () => {
+    const slow = service.subscribe(
+      'websocket',
+      {},
+      () => false,
+      () => {},
+    );
+    const failing = service.subscribe(
+      'sse',
+      {},
+      () => {
+        throw new Error('socket closed');
+      },
+      () => {},
+    );
+
+    service.publish(entry('sensor-1', LogSeverity.INFO));
+
+    const statuses = service.getSubscribers();
+    expect(statuses.find((status) => status.id === slow.id)).toMatchObject({
+      delivered: 0,
+      dropped: 1,
+    });
+    expect(statuses.find((status) => status.id === failing.id)).toMatchObject({
+      delivered: 0,
+      dropped: 1,
+    });
+  });
+
+  it('keeps publishing to other listeners when one throws', () => {
+    const listener = jest.fn();
+    service.addListener(() => {
+      throw new Error('broken');
+    });
+    const removeListener = service.addListener(listener);
+
+    service.publish(entry('sensor-1', LogSeverity.INFO));
+    removeListener();
+    service.publish(entry('sensor-1', LogSeverity.INFO));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops delivering after unsubscribe and closes open tails on shutdown', () => {
+    const deliver = jest.fn(() => true);
+    const close = jest.fn();
+    const closed = service.subscribe('sse', {}, deliver, () => {});
+    service.subscribe('websocket', {}, () => true, close);
+
+    closed.unsubscribe();
+    service.publish(entry('sensor-1', LogSeverity.INFO));
+    service.onModuleDestroy();
+
+    expect(deliver).not.toHaveBeenCalled();
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(service.getSubscribers()).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  LOG_SEVERITY_LEVELS,
+  LogEntry,
+  LogStreamQuery,
+  LogTailSubscriberStatus,
+} from '../types';
+
+/**
+ * Delivers an entry to a live tail connection. Returns false when the
+ * connection cannot take more data right now, in which case the entry is
+ * dropped for that connection instead of being queued.
+ */
+export type LogTailDeliver = (entry: LogEntry) => boolean;
+
+/** In-process consumer of every published entry, e.g. the alert engine. */
+export type LogListener = (entry: LogEntry) => void;
+
+export interface LogTailSubscription {
+  readonly id: string;
+  unsubscribe(): void;
+}
+
+interface Subscriber {
+  status: LogTailSubscriberStatus;
+  deliver: LogTailDeliver;
+  close: () => void;
+}
+
+@Injectable()
+export class LogStreamService implements OnModuleDestroy {
+  private readonly logger = new Logger(LogStreamService.name);
+  private readonly subscribers = new Map<string, Subscriber>();
+  private readonly listeners = new Set<LogListener>();
+
+  subscribe(
+    transport: LogTailSubscriberStatus['transport'],
+    filter: LogStreamQuery,
+    deliver: LogTailDeliver,
+    close: () => void,
+  ): LogTailSubscription {
+    const id = randomUUID();
+    this.subscribers.set(id, {
+      status: {
+        id,
+        transport,
+        filter,
+        connectedAt: new Date(),
+        delivered: 0,
+        dropped: 0,
+      },
+      deliver,
+      close,
+    });
+    this.logger.log(`Live tail ${id} opened over ${transport}`);
+
+    return {
+      id,
+      unsubscribe: () => {
+        const subscriber = this.subscribers.get(id);
+        if (!subscriber) return;
+
+        this.subscribers.delete(id);
+        this.logger.log(
+          `Live tail ${id} closed (delivered ${subscriber.status.delivered}, dropped ${subscriber.status.dropped})`,
+        );
+      },
+    };
+  }
+
+  // Listeners let other modules see the live stream without depending on MQTT
+  addListener(listener: LogListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Called inline from the MQTT handler, so it must never block or throw
+  publish(entry: LogEntry): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(entry);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.logger.error(`Log listener failed: ${errorMessage}`);
+      }
+    });
+
+    this.subscribers.forEach((subscriber) => {
+      if (!this.matches(subscriber.status.filter, entry)) return;
+
+      try {
+        if (subscriber.deliver(entry)) {
+          subscriber.status.delivered++;
+        } else {
+          subscriber.status.dropped++;
+        }
+      } catch {
+        subscriber.status.dropped++;
+      }
+    });
+  }
+
+  getSubscribers(): LogTailSubscriberStatus[] {
+    return Array.from(this.subscribers.values()).map((subscriber) => ({
+      ...subscriber.status,
+    }));
+  }
+
+  // Open tails would otherwise keep the HTTP server from shutting down
+  onModuleDestroy(): void {
+    this.subscribers.forEach((subscriber) => subscriber.close());
+    this.subscribers.clear();
+  }
+
+  private matches(filter: LogStreamQuery, entry: LogEntry): boolean {
+    if (filter.deviceId && filter.deviceId !== entry.device_id) return false;
+    if (
+      filter.minSeverity &&
+      LOG_SEVERITY_LEVELS.indexOf(entry.severity) <
+        LOG_SEVERITY_LEVELS.indexOf(filter.minSeverity)
+    ) {
+      return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Headers,
+  Param,
+  Query,
+  HttpStatus,
+  HttpException,
+  ValidationPipe,
+  UsePipes,
+} from '@nestjs/common';
+import { IncomingHttpHeaders } from 'http';
+import { LogsService } from './logs.service';
+import { AuthService } from '../auth/auth.service';
+import { LogQueryRequest, LogQueryResponse } from '../types';
+
+@Controller()
+export class LogsController {
+  constructor(
+    private readonly logsService: LogsService,
+    private readonly authService: AuthService,
+  ) {}
+
+  @Get('logs')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async queryLogs(
+    @Query() request: LogQueryRequest,
+    @Headers() headers: IncomingHttpHeaders,
+  ): Promise<LogQueryResponse> {
+    return this.runQuery(request, headers);
+  }
+
+  @Get('devices/:deviceId/logs')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async queryDeviceLogs(
+    @Param('deviceId') deviceId: string,
+    @Query() request: LogQueryRequest,
+    @Headers() headers: IncomingHttpHeaders,
+  ): Promise<LogQueryResponse> {
+    return this.runQuery({ ...request, deviceId }, headers);
+  }
+
+  private async runQuery(
+    request: LogQueryRequest,
+    headers: IncomingHttpHeaders,
+  ): Promise<LogQueryResponse> {
+    this.assertTenantAccess(request.tenant, headers);
+
+    try {
+      return await this.logsService.query(request);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      throw new HttpException(
+        `Failed to query logs: ${errorMessage}`,
+        HttpStatus.BAD_GATEWAY,
+      );
+    }
+  }
+
+  // The guard already authenticated the caller; only the role is checked here
+  private assertTenantAccess(
+    tenant: string | undefined,
+    headers: IncomingHttpHeaders,
+  ): void {
+    if (
+      !this.authService.isEnabled() ||
+      !this.logsService.isOtherTenant(tenant)
+    ) {
+      return;
+    }
+
+    const principal = this.authService.authenticate(headers);
+    if (!this.authService.hasRole(principal, 'admin')) {
+      throw new HttpException(
+        'Querying a tenant other than the default requires the admin role',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { LogsService } from './logs.service';
+import { LogsController } from './logs.controller';
+import { LokiModule } from '../loki/loki.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [LokiModule, AuthModule],
+  controllers: [LogsController],
+  providers: [LogsService],
+})
+export class LogsModule {}
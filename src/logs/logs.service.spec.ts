@@ -0,0 +1,80 @@
+import 'reflect-metadata';
+import { LokiService } from '../loki/loki.service';
+import { LokiQueryRangeParams } from '../types';
+import { LogsService } from './logs.service';
+
+describe('LogsService', () => {
+  // Stored entries, as [nanoseconds, line], all in one stream
+  const stored: [string, string][] = [
+    ['5000000000', 'e'],
+    ['4000000000', 'd1'],
+    ['4000000000', 'd2'],
+    ['4000000000', 'd3'],
+    ['3000000000', 'c'],
+  ];
+
+  // Behaves like Loki's backward query_range: end is exclusive
+  const queryRange = jest.fn((params: LokiQueryRangeParams) => {
+    const values = stored
+      .filter(
+        ([nanoseconds]) =>
+          BigInt(nanoseconds) >= BigInt(params.start) &&
+          BigInt(nanoseconds) < BigInt(params.end),
+      )
+      .slice(0, params.limit);
+    return Promise.resolve({
+      status: 'success',
+      data: {
+        resultType: 'streams',
+        result: [{ stream: { device_id: 'sensor-1' }, values }],
+      },
+    });
+  });
+
+  const service = new LogsService({
+    queryRange,
+    getDefaultTenant: () => 'default',
+  } as unknown as LokiService);
+
+  const range = {
+    from: new Date(1000).toISOString(),
+    to: new Date(10000).toISOString(),
+  };
+
+  it('pages through entries sharing a nanosecond without skipping any', async () => {
+    const messages: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await service.query({ ...range, limit: 2, cursor });
+      messages.push(...page.entries.map((entry) => entry.message));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(messages).toEqual(['e', 'd1', 'd2', 'd3', 'c']);
+  });
+
+  it('counts entries at the cursor nanosecond across pages', async () => {
+    const first = await service.query({
+      ...range,
+      limit: 1,
+      cursor: '4000000000:1',
+    });
+
+    expect(first.entries.map((entry) => entry.message)).toEqual(['d2']);
+    expect(first.nextCursor).toBe('4000000000:2');
+  });
+
+  it('leaves out the cursor on the last page', async () => {
+    const page = await service.query({ ...range, limit: 10 });
+
+    expect(page.entries).toHaveLength(5);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('builds a selector from the filters', () => {
+    expect(
+      service.buildQuery({ deviceId: 'sensor-1', contains: 'timeout' }),
+    ).toBe('{device_id="sensor-1"} |= "timeout"');
+  });
+});
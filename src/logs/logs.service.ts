@@ -0,0 +1,153 @@
+import { Injectable } from '@nestjs/common';
+import { LokiService } from '../loki/loki.service';
+import {
+  LOG_SEVERITY_LEVELS,
+  LogQueryEntry,
+  LogQueryRequest,
+  LogQueryResponse,
+} from '../types';
+
+const NANOS_PER_MILLISECOND = BigInt(1000000);
+
+@Injectable()
+export class LogsService {
+  private readonly defaultLimit = 100;
+  private readonly defaultRangeMs = 60 * 60 * 1000;
+
+  constructor(private readonly lokiService: LokiService) {}
+
+  async query(request: LogQueryRequest): Promise<LogQueryResponse> {
+    const query = this.buildQuery(request);
+    const limit = request.limit ?? this.defaultLimit;
+    const to = request.to ? new Date(request.to) : new Date();
+    const from = request.from
+      ? new Date(request.from)
+      : new Date(to.getTime() - this.defaultRangeMs);
+
+    // Newest entries first. Several entries can share a nanosecond, so the
+    // cursor keeps its own nanosecond in range and skips the entries at it
+    // that earlier pages already returned
+    const cursor = request.cursor
+      ? this.parseCursor(request.cursor)
+      : undefined;
+    const end = cursor
+      ? (BigInt(cursor.nanoseconds) + BigInt(1)).toString()
+      : this.toNanoseconds(to);
+    const skip = cursor?.skip ?? 0;
+    const response = await this.lokiService.queryRange(
+      {
+        query,
+        start: this.toNanoseconds(from),
+        end,
+        limit: limit + skip,
+        direction: 'backward',
+      },
+      request.tenant,
+    );
+
+    const entries = response.data.result
+      .flatMap((stream) =>
+        stream.values.map(([nanoseconds, line]) => ({
+          nanoseconds,
+          entry: this.toQueryEntry(stream.stream, nanoseconds, line),
+        })),
+      )
+      .sort(
+        (a, b) =>
+          this.compareNanoseconds(b.nanoseconds, a.nanoseconds) ||
+          this.compareEntries(a.entry, b.entry),
+      )
+      .slice(skip, skip + limit);
+
+    return {
+      query,
+      entries: entries.map(({ entry }) => entry),
+      nextCursor:
+        entries.length === limit
+          ? this.nextCursor(
+              entries.map(({ nanoseconds }) => nanoseconds),
+              cursor,
+            )
+          : undefined,
+    };
+  }
+
+  // Any tenant but the default one holds another customer's logs
+  isOtherTenant(tenant?: string): boolean {
+    return (
+      tenant !== undefined && tenant !== this.lokiService.getDefaultTenant()
+    );
+  }
+
+  buildQuery(request: LogQueryRequest): string {
+    const matchers = [
+      request.deviceId
+        ? `device_id=${JSON.stringify(request.deviceId)}`
+        : 'device_id=~".+"',
+    ];
+
+    if (request.severity) {
+      const severities = LOG_SEVERITY_LEVELS.slice(
+        LOG_SEVERITY_LEVELS.indexOf(request.severity),
+      );
+      matchers.push(`severity=~"${severities.join('|')}"`);
+    }
+
+    const selector = `{${matchers.join(', ')}}`;
+    return request.contains
+      ? `${selector} |= ${JSON.stringify(request.contains)}`
+      : selector;
+  }
+
+  private toQueryEntry(
+    labels: Record<string, string>,
+    nanoseconds: string,
+    line: string,
+  ): LogQueryEntry {
+    return {
+      timestamp: new Date(Number(BigInt(nanoseconds) / NANOS_PER_MILLISECOND)),
+      deviceId: labels.device_id,
+      severity: labels.severity,
+      message: line,
+      labels,
+    };
+  }
+
+  private parseCursor(cursor: string): { nanoseconds: string; skip: number } {
+    const [nanoseconds, skip] = cursor.split(':');
+    return { nanoseconds, skip: Number(skip) };
+  }
+
+  // Counts the entries at the last nanosecond of the page, including those
+  // skipped when the whole page shares the cursor's nanosecond
+  private nextCursor(
+    page: string[],
+    cursor?: { nanoseconds: string; skip: number },
+  ): string {
+    const last = page[page.length - 1];
+    let skip = page.filter((nanoseconds) => nanoseconds === last).length;
+    if (cursor?.nanoseconds === last) {
+      skip += cursor.skip;
+    }
+    return `${last}:${skip}`;
+  }
+
+  // Orders entries sharing a nanosecond the same way on every page
+  private compareEntries(a: LogQueryEntry, b: LogQueryEntry): number {
+    const labelsA = JSON.stringify(a.labels);
+    const labelsB = JSON.stringify(b.labels);
+    if (labelsA !== labelsB) {
+      return labelsA < labelsB ? -1 : 1;
+    }
+    return a.message < b.message ? -1 : a.message > b.message ? 1 : 0;
+  }
+
+  private toNanoseconds(date: Date): string {
+    return (BigInt(date.getTime()) * NANOS_PER_MILLISECOND).toString();
+  }
+
+  private compareNanoseconds(a: string, b: string): number {
+    const difference = BigInt(a) - BigInt(b);
+    return difference > 0 ? 1 : difference < 0 ? -1 : 0;
+  }
+}
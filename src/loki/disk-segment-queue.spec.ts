@@ -0,0 +1,116 @@
+import 'reflect-metadata';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogEntry, LogSeverity } from '../types';
+import {
+  DiskSegmentQueue,
+  DiskSegmentQueueOptions,
+} from './disk-segment-queue';
+
+function entries(...messages: string[]): LogEntry[] {
+  return messages.map((message) => ({
+    message,
+    device_id: 'device-1',
+    severity: LogSeverity.INFO,
+  }));
+}
+
+function messages(batch: LogEntry[]): string[] {
+  return batch.map((entry) => entry.message);
+}
+
+describe('DiskSegmentQueue', () => {
+  let directory: string;
+  let queue: DiskSegmentQueue | undefined;
+
+  const open = (options: Partial<DiskSegmentQueueOptions> = {}) => {
+    queue = new DiskSegmentQueue({
+      directory,
+      maxBytes: 1024 * 1024,
+      segmentBytes: 1024 * 1024,
+      fsync: 'never',
+      ...options,
+    });
+    return queue;
+  };
+
+  const readCursor = () =>
+    JSON.parse(
+      fs.readFileSync(path.join(directory, 'cursor.json'), 'utf8'),
+    ) as unknown;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wal-'));
+  });
+
+  afterEach(() => {
+    queue?.close();
+    queue = undefined;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('keeps peeked entries until they are acknowledged', () => {
+    const wal = open();
+    wal.append(entries('a', 'b', 'c'));
+
+    const batch = wal.peek(2);
+    expect(messages(batch.entries)).toEqual(['a', 'b']);
+
+    wal.ack(batch.end);
+    expect(wal.size()).toBe(1);
+    expect(messages(wal.peek(10).entries)).toEqual(['c']);
+  });
+
+  it('reads batches across segments', () => {
+    // Every append rolls to a new segment
+    const wal = open({ segmentBytes: 1 });
+    wal.append(entries('a'));
+    wal.append(entries('b'));
+    wal.append(entries('c'));
+
+    const batch = wal.peek(2);
+    expect(messages(batch.entries)).toEqual(['a', 'b']);
+
+    wal.ack(batch.end);
+    expect(messages(wal.peek(10).entries)).toEqual(['c']);
+    expect(wal.getStatus().segments).toBe(1);
+  });
+
+  it('does not remove unsent entries when a peeked segment was dropped', () => {
+    const recordBytes =
+      JSON.stringify({ t: Date.now(), e: entries('a')[0] }).length + 1;
+    // One entry per segment, room for two segments
+    const wal = open({ segmentBytes: 1, maxBytes: recordBytes * 2 });
+    wal.append(entries('a'));
+    wal.append(entries('b'));
+    const batch = wal.peek(2);
+
+    expect(wal.append(entries('c'))).toBe(1);
+    wal.ack(batch.end);
+
+    expect(messages(wal.peek(10).entries)).toEqual(['c']);
+  });
+
+  it('writes the cursor on sync rather than on every ack', () => {
+    const wal = open();
+    wal.append(entries('a', 'b'));
+    const initial = readCursor();
+
+    wal.ack(wal.peek(1).end);
+    expect(readCursor()).toEqual(initial);
+
+    wal.sync();
+    expect(readCursor()).toEqual({ segment: 1, offset: 1 });
+  });
+
+  it('replays unacknowledged entries after a restart', () => {
+    const wal = open();
+    wal.append(entries('a', 'b', 'c'));
+    wal.ack(wal.peek(1).end);
+    wal.close();
+
+    const reopened = open();
+    expect(messages(reopened.peek(10).entries)).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,333 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WalFsyncPolicy } from '../config/configuration';
+import { LogEntry, LokiBacklogStatus } from '../types';
+import { BufferPosition, LogBatch, LogBuffer } from './log-buffer';
+
+export interface DiskSegmentQueueOptions {
+  directory: string;
+  maxBytes: number;
+  segmentBytes: number;
+  fsync: WalFsyncPolicy;
+}
+
+interface Segment {
+  id: number;
+  bytes: number;
+  entries: number;
+}
+
+interface WalRecord {
+  t: number;
+  e: LogEntry;
+}
+
+type Cursor = BufferPosition;
+
+const SEGMENT_PATTERN = /^(\d+)\.wal$/;
+const CURSOR_FILE = 'cursor.json';
+
+/**
+ * Write-ahead log of pending Loki entries stored as NDJSON segment files.
+ *
+ * Entries are appended to the newest segment and consumed from the oldest one.
+ * The read position is kept in `cursor.json`, so a restart replays everything
+ * that was not acknowledged yet (delivery is at-least-once). Acks only move
+ * the cursor in memory; it is written on `sync()`, so a crash may resend the
+ * batches acknowledged since the last sync.
+ */
+export class DiskSegmentQueue implements LogBuffer {
+  private readonly logger = new Logger(DiskSegmentQueue.name);
+  private readonly cache = new Map<number, WalRecord[]>();
+  private segments: Segment[] = [];
+  private cursor: Cursor = { segment: 1, offset: 0 };
+  private writeFd?: number;
+  private cursorDirty = false;
+  private droppedEntries = 0;
+
+  constructor(private readonly options: DiskSegmentQueueOptions) {
+    fs.mkdirSync(options.directory, { recursive: true });
+    this.load();
+  }
+
+  append(entries: LogEntry[]): number {
+    if (entries.length === 0) return 0;
+
+    let tail = this.segments[this.segments.length - 1];
+    if (tail.bytes >= this.options.segmentBytes) {
+      tail = this.roll();
+    }
+
+    const enqueuedAt = Date.now();
+    const records = entries.map((entry) => ({ t: enqueuedAt, e: entry }));
+    const data = records
+      .map((record) => `${JSON.stringify(record)}\n`)
+      .join('');
+
+    fs.writeSync(this.writeFd!, data);
+    if (this.options.fsync === 'always') {
+      fs.fsyncSync(this.writeFd!);
+    }
+
+    tail.bytes += Buffer.byteLength(data);
+    tail.entries += records.length;
+    this.cache.get(tail.id)?.push(...records);
+
+    return this.enforceMaxBytes();
+  }
+
+  peek(count: number): LogBatch {
+    const entries: LogEntry[] = [];
+    let end: BufferPosition = { ...this.cursor };
+
+    for (const segment of this.segments) {
+      if (entries.length >= count) break;
+
+      const records = this.readSegment(segment);
+      let i = segment.id === this.cursor.segment ? this.cursor.offset : 0;
+      for (; i < records.length && entries.length < count; i++) {
+        entries.push(records[i].e);
+      }
+      end = { segment: segment.id, offset: i };
+    }
+
+    return { entries, end };
+  }
+
+  ack(end: BufferPosition): void {
+    // Segments before the batch end were read whole; ones dropped to stay
+    // under maxBytes while the batch was in flight are already gone
+    while (this.segments.length > 1 && this.segments[0].id < end.segment) {
+      this.removeHead();
+    }
+
+    const head = this.segments[0];
+    if (head.id === end.segment && end.offset > this.cursor.offset) {
+      this.cursor.offset = Math.min(end.offset, head.entries);
+    }
+    while (
+      this.segments.length > 1 &&
+      this.cursor.offset >= this.segments[0].entries
+    ) {
+      this.removeHead();
+    }
+
+    this.cursorDirty = true;
+  }
+
+  size(): number {
+    return (
+      this.segments.reduce((total, segment) => total + segment.entries, 0) -
+      this.cursor.offset
+    );
+  }
+
+  oldestEntryAge(): number | undefined {
+    for (const segment of this.segments) {
+      const records = this.readSegment(segment);
+      const start = segment.id === this.cursor.segment ? this.cursor.offset : 0;
+      if (start < records.length) {
+        return Date.now() - records[start].t;
+      }
+    }
+    return undefined;
+  }
+
+  /** Flushes appended data and the read position to disk. */
+  sync(): void {
+    if (this.writeFd !== undefined && this.options.fsync !== 'never') {
+      fs.fsyncSync(this.writeFd);
+    }
+    if (this.cursorDirty) this.saveCursor();
+  }
+
+  getStatus(): LokiBacklogStatus {
+    return {
+      pendingEntries: this.size(),
+      bytesOnDisk: this.segments.reduce(
+        (total, segment) => total + segment.bytes,
+        0,
+      ),
+      segments: this.segments.length,
+      oldestEntryAgeMs: this.oldestEntryAge(),
+      droppedEntries: this.droppedEntries,
+    };
+  }
+
+  close(): void {
+    if (this.writeFd === undefined) return;
+
+    this.sync();
+    fs.closeSync(this.writeFd);
+    this.writeFd = undefined;
+    this.cache.clear();
+  }
+
+  private load(): void {
+    const ids = fs
+      .readdirSync(this.options.directory)
+      .map((file) => SEGMENT_PATTERN.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => parseInt(match[1], 10))
+      .sort((a, b) => a - b);
+
+    this.loadCursor();
+
+    ids.forEach((id, index) => {
+      if (id < this.cursor.segment) {
+        fs.unlinkSync(this.segmentPath(id));
+        return;
+      }
+      this.segments.push(this.scanSegment(id, index === ids.length - 1));
+    });
+
+    if (this.segments.length === 0) {
+      this.segments.push({ id: this.cursor.segment, bytes: 0, entries: 0 });
+      this.cursor.offset = 0;
+    } else if (this.segments[0].id !== this.cursor.segment) {
+      this.cursor = { segment: this.segments[0].id, offset: 0 };
+    }
+    this.cursor.offset = Math.min(this.cursor.offset, this.segments[0].entries);
+
+    const tail = this.segments[this.segments.length - 1];
+    this.writeFd = fs.openSync(this.segmentPath(tail.id), 'a');
+    this.saveCursor();
+
+    const pending = this.size();
+    if (pending > 0) {
+      this.logger.log(
+        `Loaded ${pending} pending log entries from ${this.segments.length} segment(s) in ${this.options.directory}`,
+      );
+    }
+  }
+
+  private loadCursor(): void {
+    const cursorPath = path.join(this.options.directory, CURSOR_FILE);
+    if (!fs.existsSync(cursorPath)) return;
+
+    try {
+      const cursor = JSON.parse(fs.readFileSync(cursorPath, 'utf8')) as Cursor;
+      if (Number.isInteger(cursor.segment) && Number.isInteger(cursor.offset)) {
+        this.cursor = cursor;
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Ignoring unreadable WAL cursor: ${errorMessage}`);
+    }
+  }
+
+  private scanSegment(id: number, isTail: boolean): Segment {
+    const segmentPath = this.segmentPath(id);
+    const data = fs.readFileSync(segmentPath);
+
+    // A crash in the middle of a write leaves a partial last line behind
+    let bytes = data.length;
+    const lastNewline = data.lastIndexOf(10);
+    if (isTail && lastNewline + 1 < data.length) {
+      bytes = lastNewline + 1;
+      fs.truncateSync(segmentPath, bytes);
+      this.logger.warn(`Truncated partial record at the end of ${segmentPath}`);
+    }
+
+    let entries = 0;
+    for (let i = data.indexOf(10); i !== -1 && i < bytes; ) {
+      entries++;
+      i = data.indexOf(10, i + 1);
+    }
+
+    return { id, bytes, entries };
+  }
+
+  private readSegment(segment: Segment): WalRecord[] {
+    const cached = this.cache.get(segment.id);
+    if (cached) return cached;
+
+    const records: WalRecord[] = [];
+    const lines = fs
+      .readFileSync(this.segmentPath(segment.id), 'utf8')
+      .split('\n')
+      .filter((line) => line.length > 0);
+
+    for (const line of lines) {
+      try {
+        const record = JSON.parse(line) as WalRecord;
+        if (record.e.timestamp) {
+          record.e.timestamp = new Date(record.e.timestamp);
+        }
+        records.push(record);
+      } catch {
+        this.logger.warn(
+          `Skipping corrupt record in WAL segment ${segment.id}`,
+        );
+      }
+    }
+
+    segment.entries = records.length;
+    this.cache.set(segment.id, records);
+    return records;
+  }
+
+  private roll(): Segment {
+    const previous = this.segments[this.segments.length - 1];
+    this.sync();
+    fs.closeSync(this.writeFd!);
+
+    const segment: Segment = { id: previous.id + 1, bytes: 0, entries: 0 };
+    this.writeFd = fs.openSync(this.segmentPath(segment.id), 'a');
+    this.segments.push(segment);
+
+    // Drop the previous segment right away if it was already fully consumed
+    if (
+      this.cursor.segment === previous.id &&
+      this.cursor.offset >= previous.entries
+    ) {
+      this.removeHead();
+      this.saveCursor();
+    }
+
+    return segment;
+  }
+
+  private enforceMaxBytes(): number {
+    let dropped = 0;
+
+    while (
+      this.segments.length > 1 &&
+      this.segments.reduce((total, segment) => total + segment.bytes, 0) >
+        this.options.maxBytes
+    ) {
+      dropped += this.segments[0].entries - this.cursor.offset;
+      this.removeHead();
+    }
+
+    if (dropped > 0) {
+      this.droppedEntries += dropped;
+      this.saveCursor();
+    }
+    return dropped;
+  }
+
+  private removeHead(): void {
+    const head = this.segments.shift()!;
+    this.cache.delete(head.id);
+    fs.unlinkSync(this.segmentPath(head.id));
+    this.cursor = { segment: this.segments[0].id, offset: 0 };
+  }
+
+  private saveCursor(): void {
+    const cursorPath = path.join(this.options.directory, CURSOR_FILE);
+    const tmpPath = `${cursorPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.cursor));
+    fs.renameSync(tmpPath, cursorPath);
+    this.cursorDirty = false;
+  }
+
+  private segmentPath(id: number): string {
+    return path.join(
+      this.options.directory,
+      `${id.toString().padStart(12, '0')}.wal`,
+    );
+  }
+}
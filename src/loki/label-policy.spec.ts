@@ -0,0 +1,97 @@
+import 'reflect-metadata';
+import { Logger } from '@nestjs/common';
+import { LogEntry, LogSeverity } from '../types';
+import { LabelPolicy, LabelPolicyOptions } from './label-policy';
+
+describe('LabelPolicy', () => {
+  const createPolicy = (options: Partial<LabelPolicyOptions> = {}) =>
+    new LabelPolicy({
+      allowlist: [],
+      maxValueLength: 128,
+      maxCardinality: 500,
+      metadataMode: 'line',
+      ...options,
+    });
+
+  const entry = (metadata: Record<string, unknown>): LogEntry => ({
+    message: 'reading',
+    device_id: 'sensor-1',
+    severity: LogSeverity.INFO,
+    metadata,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps only allowlisted metadata keys as labels', () => {
+    const policy = createPolicy({ allowlist: ['region'] });
+
+    expect(
+      policy.shape(entry({ region: 'eu', firmware: '1.2.0', rssi: -70 })),
+    ).toEqual({
+      labels: { severity: 'info', device_id: 'sensor-1', region: 'eu' },
+      line: 'reading firmware=1.2.0 rssi=-70',
+    });
+  });
+
+  it('sends other metadata as structured metadata in structured mode', () => {
+    const policy = createPolicy({ metadataMode: 'structured' });
+
+    expect(policy.shape(entry({ firmware: '1.2.0' }))).toEqual({
+      labels: { severity: 'info', device_id: 'sensor-1' },
+      line: 'reading',
+      structuredMetadata: { firmware: '1.2.0' },
+    });
+  });
+
+  it('sanitizes label names and values', () => {
+    const policy = createPolicy({
+      allowlist: ['site-id', '2nd'],
+      maxValueLength: 8,
+    });
+
+    const { labels, line } = policy.shape(
+      entry({ 'site-id': ' plant\n7 north ', '2nd': 'x', 'fw.version': 'a b' }),
+    );
+
+    expect(labels).toEqual({
+      severity: 'info',
+      device_id: 'sensor-1',
+      site_id: 'plant 7 ',
+      _2nd: 'x',
+    });
+    expect(line).toBe('reading fw_version="a b"');
+  });
+
+  it('moves new values out of labels once a label reaches its cardinality limit', () => {
+    const policy = createPolicy({ allowlist: ['zone'], maxCardinality: 2 });
+
+    const zoneOf = (zone: string) => policy.shape(entry({ zone })).labels.zone;
+
+    expect(zoneOf('a')).toBe('a');
+    expect(zoneOf('b')).toBe('b');
+    expect(zoneOf('c')).toBeUndefined();
+    expect(policy.shape(entry({ zone: 'c' })).line).toBe('reading zone=c');
+    // Values admitted before the limit stay labels
+    expect(zoneOf('a')).toBe('a');
+    expect(policy.getStatus()).toEqual({
+      cardinality: { zone: 2 },
+      limitedLabels: ['zone'],
+    });
+  });
+
+  it('never limits core labels', () => {
+    const policy = createPolicy({ maxCardinality: 1 });
+
+    ['sensor-1', 'sensor-2'].forEach((deviceId) =>
+      expect(
+        policy.shape({ ...entry({}), device_id: deviceId }).labels.device_id,
+      ).toBe(deviceId),
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import { Logger } from '@nestjs/common';
+import { LokiMetadataMode } from '../config/configuration';
+import { LogEntry, LokiLabelStatus } from '../types';
+
+export interface LabelPolicyOptions {
+  allowlist: string[];
+  maxValueLength: number;
+  maxCardinality: number;
+  metadataMode: LokiMetadataMode;
+}
+
+export interface ShapedLogEntry {
+  labels: Record<string, string>;
+  line: string;
+  structuredMetadata?: Record<string, string>;
+}
+
+// Labels the pipeline sets on every entry; they are never limited
+const CORE_LABELS = ['severity', 'device_id', 'source'];
+
+/**
+ * Decides which parts of a log entry become Loki stream labels. Core labels
+ * and topic-template captures stay labels, metadata keys only when
+ * allowlisted. Everything else goes to structured metadata or the log line,
+ * so it does not create new streams.
+ */
+export class LabelPolicy {
+  private readonly logger = new Logger(LabelPolicy.name);
+  private readonly allowlist: Set<string>;
+  private readonly seenValues = new Map<string, Set<string>>();
+  private readonly limitedLabels = new Set<string>();
+
+  constructor(private readonly options: LabelPolicyOptions) {
+    this.allowlist = new Set(options.allowlist.map(sanitizeLabelName));
+  }
+
+  shape(entry: LogEntry): ShapedLogEntry {
+    const labels: Record<string, string> = {
+      severity: entry.severity,
+      device_id: entry.device_id,
+    };
+    const extra: Record<string, string> = {};
+
+    const candidates: Array<[string, unknown]> = Object.entries(
+      entry.labels ?? {},
+    ).map(([name, value]) => [sanitizeLabelName(name), value]);
+    Object.entries(entry.metadata ?? {}).forEach(([key, value]) => {
+      // Structured metadata names follow the same rules as label names
+      const name = sanitizeLabelName(key);
+      if (this.allowlist.has(name)) {
+        candidates.push([name, value]);
+      } else {
+        extra[name] = stringifyValue(value);
+      }
+    });
+
+    candidates.forEach(([name, value]) => {
+      if (CORE_LABELS.includes(name)) {
+        labels[name] = stringifyValue(value);
+        return;
+      }
+
+      const labelValue = this.sanitizeLabelValue(value);
+      if (labelValue.length === 0) return;
+
+      if (this.admit(name, labelValue)) {
+        labels[name] = labelValue;
+      } else {
+        extra[name] = stringifyValue(value);
+      }
+    });
+
+    if (Object.keys(extra).length === 0) {
+      return { labels, line: entry.message };
+    }
+    if (this.options.metadataMode === 'line') {
+      return { labels, line: `${entry.message} ${formatLogfmt(extra)}` };
+    }
+    return { labels, line: entry.message, structuredMetadata: extra };
+  }
+
+  getStatus(): LokiLabelStatus {
+    const cardinality: Record<string, number> = {};
+    this.seenValues.forEach((values, name) => {
+      cardinality[name] = values.size;
+    });
+    return { cardinality, limitedLabels: Array.from(this.limitedLabels) };
+  }
+
+  // Values already seen stay labels; new ones are refused once over the limit
+  private admit(name: string, value: string): boolean {
+    let values = this.seenValues.get(name);
+    if (!values) {
+      values = new Set();
+      this.seenValues.set(name, values);
+    }
+    if (values.has(value)) return true;
+
+    if (values.size >= this.options.maxCardinality) {
+      if (!this.limitedLabels.has(name)) {
+        this.limitedLabels.add(name);
+        this.logger.warn(
+          `Label "${name}" exceeded ${this.options.maxCardinality} distinct values, new values are moved out of stream labels`,
+        );
+      }
+      return false;
+    }
+
+    values.add(value);
+    return true;
+  }
+
+  private sanitizeLabelValue(value: unknown): string {
+    return (
+      stringifyValue(value)
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\u0000-\u001f\u007f]/g, ' ')
+        .trim()
+        .slice(0, this.options.maxValueLength)
+    );
+  }
+}
+
+// Loki label names must match [a-zA-Z_][a-zA-Z0-9_]*
+function sanitizeLabelName(name: string): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_]/g, '_');
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+function stringifyValue(value: unknown): string {
+  return typeof value === 'string' ? value : (JSON.stringify(value) ?? '');
+}
+
+function formatLogfmt(fields: Record<string, string>): string {
+  return Object.entries(fields)
+    .map(([key, value]) =>
+      /^[^\s"=]+$/.test(value)
+        ? `${key}=${value}`
+        : `${key}=${JSON.stringify(value)}`,
+    )
+    .join(' ');
+}
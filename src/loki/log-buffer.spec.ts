@@ -0,0 +1,61 @@
+import 'reflect-metadata';
+import { LogEntry, LogSeverity } from '../types';
+import { MemoryLogBuffer } from './log-buffer';
+
+function entries(...messages: string[]): LogEntry[] {
+  return messages.map((message) => ({
+    message,
+    device_id: 'device-1',
+    severity: LogSeverity.INFO,
+  }));
+}
+
+function messages(batch: LogEntry[]): string[] {
+  return batch.map((entry) => entry.message);
+}
+
+describe('MemoryLogBuffer', () => {
+  it('keeps peeked entries until they are acknowledged', () => {
+    const buffer = new MemoryLogBuffer(10);
+    buffer.append(entries('a', 'b', 'c'));
+
+    const batch = buffer.peek(2);
+    expect(messages(batch.entries)).toEqual(['a', 'b']);
+    expect(messages(buffer.peek(10).entries)).toEqual(['a', 'b', 'c']);
+
+    buffer.ack(batch.end);
+    expect(buffer.size()).toBe(1);
+    expect(messages(buffer.peek(10).entries)).toEqual(['c']);
+  });
+
+  it('drops the oldest entries on overflow', () => {
+    const buffer = new MemoryLogBuffer(3);
+    buffer.append(entries('a', 'b'));
+
+    expect(buffer.append(entries('c', 'd', 'e'))).toBe(2);
+    expect(messages(buffer.peek(10).entries)).toEqual(['c', 'd', 'e']);
+  });
+
+  it('does not remove unsent entries when a peeked batch was dropped', () => {
+    const buffer = new MemoryLogBuffer(4);
+    buffer.append(entries('a', 'b', 'c', 'd'));
+    const batch = buffer.peek(3);
+
+    // Overflow while the batch is in flight evicts a and b
+    buffer.append(entries('e', 'f'));
+    buffer.ack(batch.end);
+
+    expect(messages(buffer.peek(10).entries)).toEqual(['d', 'e', 'f']);
+  });
+
+  it('ignores an ack for a batch that was dropped entirely', () => {
+    const buffer = new MemoryLogBuffer(2);
+    buffer.append(entries('a', 'b'));
+    const batch = buffer.peek(2);
+
+    buffer.append(entries('c', 'd'));
+    buffer.ack(batch.end);
+
+    expect(messages(buffer.peek(10).entries)).toEqual(['c', 'd']);
+  });
+});
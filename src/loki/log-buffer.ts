@@ -0,0 +1,89 @@
+import { LogEntry } from '../types';
+
+// Position in a buffer; the memory buffer only uses the offset
+export interface BufferPosition {
+  segment: number;
+  offset: number;
+}
+
+export interface LogBatch {
+  entries: LogEntry[];
+  /** Position just past the last entry, handed back to `ack()`. */
+  end: BufferPosition;
+}
+
+/**
+ * FIFO buffer of log entries waiting to be pushed to Loki.
+ *
+ * Entries are read with `peek()` and only removed with `ack()` once Loki has
+ * accepted them, so a failed push leaves the batch at the head of the buffer.
+ * Acks are by position rather than count: entries dropped on overflow while
+ * a batch is in flight must not make the ack remove entries never sent.
+ */
+export interface LogBuffer {
+  /** Appends entries and returns how many older entries were dropped to make room. */
+  append(entries: LogEntry[]): number;
+  peek(count: number): LogBatch;
+  /** Removes every entry before `end` that is still buffered. */
+  ack(end: BufferPosition): void;
+  size(): number;
+  /** Age in milliseconds of the oldest pending entry, if any. */
+  oldestEntryAge(): number | undefined;
+  close(): void;
+}
+
+interface BufferedEntry {
+  enqueuedAt: number;
+  entry: LogEntry;
+}
+
+export class MemoryLogBuffer implements LogBuffer {
+  private entries: BufferedEntry[] = [];
+  // Sequence number of entries[0]; drops and acks move it forward
+  private headSeq = 0;
+
+  constructor(private readonly maxEntries: number) {}
+
+  append(entries: LogEntry[]): number {
+    const enqueuedAt = Date.now();
+    this.entries.push(...entries.map((entry) => ({ enqueuedAt, entry })));
+
+    const overflow = this.entries.length - this.maxEntries;
+    if (overflow > 0) {
+      this.entries.splice(0, overflow);
+      this.headSeq += overflow;
+      return overflow;
+    }
+    return 0;
+  }
+
+  peek(count: number): LogBatch {
+    const batch = this.entries.slice(0, count);
+    return {
+      entries: batch.map((buffered) => buffered.entry),
+      end: { segment: 0, offset: this.headSeq + batch.length },
+    };
+  }
+
+  ack(end: BufferPosition): void {
+    const count = end.offset - this.headSeq;
+    if (count <= 0) return;
+
+    this.entries.splice(0, count);
+    this.headSeq += count;
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+
+  oldestEntryAge(): number | undefined {
+    return this.entries.length > 0
+      ? Date.now() - this.entries[0].enqueuedAt
+      : undefined;
+  }
+
+  close(): void {
+    this.entries = [];
+  }
+}
@@ -0,0 +1,107 @@
+import * as protobuf from 'protobufjs';
+import * as snappy from 'snappyjs';
+import { gunzipSync } from 'zlib';
+import { LokiPushRequest } from '../types';
+import { encodePushRequest } from './loki-encoder';
+
+// Reads back the fields the encoder writes, using Loki's field numbers
+const decodedType = protobuf.Root.fromJSON({
+  nested: {
+    PushRequest: {
+      fields: { streams: { rule: 'repeated', type: 'Stream', id: 1 } },
+    },
+    Stream: {
+      fields: {
+        labels: { type: 'string', id: 1 },
+        entries: { rule: 'repeated', type: 'Entry', id: 2 },
+      },
+    },
+    Entry: {
+      fields: {
+        timestamp: { type: 'Timestamp', id: 1 },
+        line: { type: 'string', id: 2 },
+        structuredMetadata: { rule: 'repeated', type: 'Pair', id: 3 },
+      },
+    },
+    Pair: {
+      fields: {
+        name: { type: 'string', id: 1 },
+        value: { type: 'string', id: 2 },
+      },
+    },
+    Timestamp: {
+      fields: {
+        seconds: { type: 'int64', id: 1 },
+        nanos: { type: 'int32', id: 2 },
+      },
+    },
+  },
+}).lookupType('PushRequest');
+
+const request: LokiPushRequest = {
+  streams: [
+    {
+      stream: { device_id: 'device-1', severity: 'info' },
+      values: [
+        ['1700000000123456789', 'first'],
+        ['1700000001000000000', 'second', { trace_id: 'abc' }],
+      ],
+    },
+  ],
+};
+
+describe('encodePushRequest', () => {
+  it('sends JSON as is', () => {
+    const encoded = encodePushRequest(request, 'json');
+
+    expect(encoded.body).toBe(request);
+    expect(encoded.headers).toEqual({ 'Content-Type': 'application/json' });
+  });
+
+  it('gzips JSON', () => {
+    const encoded = encodePushRequest(request, 'json-gzip');
+
+    expect(encoded.headers['Content-Encoding']).toBe('gzip');
+    expect(JSON.parse(gunzipSync(encoded.body as Buffer).toString())).toEqual(
+      request,
+    );
+  });
+
+  it('encodes snappy-compressed protobuf with nanosecond timestamps', () => {
+    const encoded = encodePushRequest(request, 'protobuf');
+    const decoded = decodedType.toObject(
+      decodedType.decode(snappy.uncompress(encoded.body as Buffer)),
+      { longs: String },
+    );
+
+    expect(encoded.headers).toEqual({
+      'Content-Type': 'application/x-protobuf',
+    });
+    expect(decoded).toEqual({
+      streams: [
+        {
+          labels: '{device_id="device-1", severity="info"}',
+          entries: [
+            {
+              timestamp: { seconds: '1700000000', nanos: 123456789 },
+              line: 'first',
+            },
+            {
+              timestamp: { seconds: '1700000001' },
+              line: 'second',
+              structuredMetadata: [{ name: 'trace_id', value: 'abc' }],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('throws on a timestamp that is not an integer', () => {
+    const invalid: LokiPushRequest = {
+      streams: [{ stream: {}, values: [['NaN000000', 'line']] }],
+    };
+
+    expect(() => encodePushRequest(invalid, 'protobuf')).toThrow();
+  });
+});
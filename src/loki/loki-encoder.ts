@@ -0,0 +1,113 @@
+import * as protobuf from 'protobufjs';
+import * as snappy from 'snappyjs';
+import { gzipSync } from 'zlib';
+import { LokiEncoding } from '../config/configuration';
+import { LokiPushRequest } from '../types';
+
+export interface EncodedPushRequest {
+  body: Buffer | LokiPushRequest;
+  headers: Record<string, string>;
+}
+
+// Subset of Loki's logproto push.proto needed to build a PushRequest
+const pushRequestType = protobuf.Root.fromJSON({
+  nested: {
+    logproto: {
+      nested: {
+        PushRequest: {
+          fields: {
+            streams: { rule: 'repeated', type: 'StreamAdapter', id: 1 },
+          },
+        },
+        StreamAdapter: {
+          fields: {
+            labels: { type: 'string', id: 1 },
+            entries: { rule: 'repeated', type: 'EntryAdapter', id: 2 },
+          },
+        },
+        EntryAdapter: {
+          fields: {
+            timestamp: { type: 'Timestamp', id: 1 },
+            line: { type: 'string', id: 2 },
+            structuredMetadata: {
+              rule: 'repeated',
+              type: 'LabelPairAdapter',
+              id: 3,
+            },
+          },
+        },
+        LabelPairAdapter: {
+          fields: {
+            name: { type: 'string', id: 1 },
+            value: { type: 'string', id: 2 },
+          },
+        },
+        Timestamp: {
+          fields: {
+            seconds: { type: 'int64', id: 1 },
+            nanos: { type: 'int32', id: 2 },
+          },
+        },
+      },
+    },
+  },
+}).lookupType('logproto.PushRequest');
+
+const NANOS_PER_SECOND = BigInt(1000000000);
+
+export function encodePushRequest(
+  request: LokiPushRequest,
+  encoding: LokiEncoding,
+): EncodedPushRequest {
+  switch (encoding) {
+    case 'protobuf':
+      return {
+        body: Buffer.from(snappy.compress(toProtobuf(request))),
+        headers: { 'Content-Type': 'application/x-protobuf' },
+      };
+    case 'json-gzip':
+      return {
+        body: gzipSync(JSON.stringify(request)),
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Encoding': 'gzip',
+        },
+      };
+    default:
+      return {
+        body: request,
+        headers: { 'Content-Type': 'application/json' },
+      };
+  }
+}
+
+function toProtobuf(request: LokiPushRequest): Uint8Array {
+  const message = pushRequestType.fromObject({
+    streams: request.streams.map((stream) => ({
+      labels: formatLabels(stream.stream),
+      entries: stream.values.map(([nanoseconds, line, metadata]) => {
+        const timestamp = BigInt(nanoseconds);
+        return {
+          timestamp: {
+            seconds: Number(timestamp / NANOS_PER_SECOND),
+            nanos: Number(timestamp % NANOS_PER_SECOND),
+          },
+          line,
+          structuredMetadata: Object.entries(metadata ?? {}).map(
+            ([name, value]) => ({ name, value }),
+          ),
+        };
+      }),
+    })),
+  });
+
+  return pushRequestType.encode(message).finish();
+}
+
+// Loki expects protobuf stream labels in LogQL selector syntax: {a="1", b="2"}
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}=${JSON.stringify(value)}`,
+  );
+  return `{${pairs.join(', ')}}`;
+}
@@ -1,7 +1,11 @@
 import { Module } from '@nestjs/common';
 import { LokiService } from './loki.service';
+import { DeadLetterModule } from '../dead-letter/dead-letter.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { RuntimeConfigModule } from '../config/runtime-config.module';
 
 @Module({
+  imports: [DeadLetterModule, MetricsModule, RuntimeConfigModule],
   providers: [LokiService],
   exports: [LokiService],
 })
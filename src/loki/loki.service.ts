@@ -1,37 +1,221 @@
-import { Injectable, Logger, OnModuleDestroy, Inject } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  Inject,
+} from '@nestjs/common';
 import { ConfigType } from '@nestjs/config';
 import axios, { AxiosInstance, AxiosError } from 'axios';
-import { LogEntry, LokiStream, LokiPushRequest } from '../types';
+import * as https from 'https';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CertificateStatus,
+  LogEntry,
+  LokiStream,
+  LokiPushRequest,
+  LokiServiceStatus,
+  LokiRetryStatus,
+  LokiTenantStatus,
+  LokiBacklogStatus,
+  LokiQueryRangeParams,
+  LokiQueryRangeResponse,
+} from '../types';
 import configuration from '../config/configuration';
+import { TlsCredentials } from '../config/tls';
+import { RuntimeConfigService } from '../config/runtime-config.service';
+import { DeadLetterService } from '../dead-letter/dead-letter.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { LogBuffer, MemoryLogBuffer } from './log-buffer';
+import { DiskSegmentQueue } from './disk-segment-queue';
+import { EncodedPushRequest, encodePushRequest } from './loki-encoder';
+import { LabelPolicy } from './label-policy';
+import { TenantResolver } from './tenant-resolver';
+import {
+  LokiPushError,
+  computeBackoffDelay,
+  toLokiPushError,
+} from './retry-policy';
+
+// Each tenant is buffered, batched and retried independently
+interface TenantQueue {
+  // Sent as X-Scope-OrgID; undefined for single-tenant Loki
+  tenant?: string;
+  buffer: LogBuffer;
+  lastFlush?: Date;
+  lastError?: string;
+  sentLogs: number;
+  droppedLogs: number;
+  retryStatus: LokiRetryStatus;
+  retryTimer?: NodeJS.Timeout;
+  flushInProgress?: Promise<void>;
+}
+
+// Write-ahead logs of tenants other than the default one live here
+const TENANT_WAL_DIRECTORY = 'tenants';
 
 @Injectable()
-export class LokiService implements OnModuleDestroy {
+export class LokiService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(LokiService.name);
   private readonly httpClient: AxiosInstance;
-  private logBuffer: LogEntry[] = [];
+  private readonly tlsCredentials: TlsCredentials;
+  private readonly tenantQueues = new Map<string | undefined, TenantQueue>();
+  private readonly overflowTenants = new Set<string | undefined>();
+  private readonly tenantResolver: TenantResolver;
+  private readonly labelPolicy: LabelPolicy;
+  private readonly maxMemoryBufferSize = 1000;
   private intervalId?: NodeJS.Timeout;
-  private lastFlush?: Date;
-  private lastError?: string;
+  private removeConfigListener?: () => void;
   private isShuttingDown = false;
 
   constructor(
     @Inject(configuration.KEY)
     private readonly config: ConfigType<typeof configuration>,
+    private readonly deadLetterService: DeadLetterService,
+    private readonly metricsService: MetricsService,
+    private readonly runtimeConfigService: RuntimeConfigService,
   ) {
+    this.tlsCredentials = new TlsCredentials(this.config.loki.tls, 'Loki');
     this.httpClient = this.createHttpClient();
+    this.tenantResolver = new TenantResolver(
+      this.config.loki.tenantRules,
+      this.config.loki.tenantId,
+    );
+    this.getTenantQueue(this.tenantResolver.getDefaultTenant());
+    this.loadTenantBacklogs();
+    this.labelPolicy = new LabelPolicy({
+      allowlist: this.config.loki.labelAllowlist,
+      maxValueLength: this.config.loki.labelMaxLength,
+      maxCardinality: this.config.loki.labelMaxCardinality,
+      metadataMode: this.config.loki.metadataMode,
+    });
     this.startBatchProcessing();
   }
 
+  onModuleInit(): void {
+    this.deadLetterService.registerReplayHandler('loki', (letter) =>
+      this.pushLogs(this.parseDeadLetterEntries(letter.payload)),
+    );
+
+    this.tenantQueues.forEach((queue) => {
+      const pending = queue.buffer.size();
+      if (pending > 0) {
+        this.logger.log(
+          `Replaying ${pending} buffered logs from disk${this.describeTenant(queue)}`,
+        );
+        void this.flushLogs(queue);
+      }
+    });
+    this.metricsService.setBufferedLogs(this.getBufferedCount());
+
+    // The batch size is read on every flush; the interval needs a new timer
+    this.removeConfigListener = this.runtimeConfigService.addChangeListener(
+      (changes) => {
+        if (changes.some((change) => change.path === 'loki.flushInterval')) {
+          clearInterval(this.intervalId);
+          this.startBatchProcessing();
+        }
+      },
+    );
+  }
+
+  private getTenantQueue(tenant: string | undefined): TenantQueue {
+    let queue = this.tenantQueues.get(tenant);
+    if (!queue && this.tenantQueues.size >= this.config.loki.maxTenants) {
+      const defaultTenant = this.tenantResolver.getDefaultTenant();
+      if (!this.overflowTenants.has(tenant)) {
+        this.overflowTenants.add(tenant);
+        this.logger.warn(
+          `Tenant limit of ${this.config.loki.maxTenants} reached, sending logs for tenant ${tenant} to the default tenant`,
+        );
+      }
+      return this.getTenantQueue(defaultTenant);
+    }
+    if (!queue) {
+      queue = {
+        tenant,
+        buffer: this.createLogBuffer(tenant),
+        sentLogs: 0,
+        droppedLogs: 0,
+        retryStatus: {
+          consecutiveFailures: 0,
+          totalRetries: 0,
+          rejectedBatches: 0,
+          rejectedLogs: 0,
+        },
+      };
+      this.tenantQueues.set(tenant, queue);
+    }
+    return queue;
+  }
+
+  private createLogBuffer(tenant: string | undefined): LogBuffer {
+    const lokiConfig = this.config.loki;
+    if (!lokiConfig.walEnabled) {
+      return new MemoryLogBuffer(this.maxMemoryBufferSize);
+    }
+
+    // The default tenant keeps the top-level directory used before tenants
+    const directory =
+      tenant === this.tenantResolver.getDefaultTenant()
+        ? lokiConfig.walDirectory
+        : path.join(
+            lokiConfig.walDirectory,
+            TENANT_WAL_DIRECTORY,
+            encodeURIComponent(tenant ?? ''),
+          );
+    this.logger.log(`Using disk-backed log buffer at ${directory}`);
+    return new DiskSegmentQueue({
+      directory,
+      maxBytes: lokiConfig.walMaxBytes,
+      segmentBytes: lokiConfig.walSegmentBytes,
+      fsync: lokiConfig.walFsync,
+    });
+  }
+
+  // Tenants seen before a restart may have logs waiting on disk
+  private loadTenantBacklogs(): void {
+    if (!this.config.loki.walEnabled) return;
+
+    const tenantsDirectory = path.join(
+      this.config.loki.walDirectory,
+      TENANT_WAL_DIRECTORY,
+    );
+    if (!fs.existsSync(tenantsDirectory)) return;
+
+    fs.readdirSync(tenantsDirectory, { withFileTypes: true })
+      .filter((dirent) => dirent.isDirectory())
+      .forEach((dirent) => {
+        if (this.tenantQueues.size >= this.config.loki.maxTenants) {
+          this.logger.warn(
+            `Tenant limit of ${this.config.loki.maxTenants} reached, leaving the backlog of tenant ${decodeURIComponent(dirent.name)} on disk`,
+          );
+          return;
+        }
+        this.getTenantQueue(decodeURIComponent(dirent.name));
+      });
+  }
+
   private createHttpClient(): AxiosInstance {
     const lokiConfig = this.config.loki;
     const client = axios.create({
       baseURL: lokiConfig.url,
       timeout: lokiConfig.timeout,
-      headers: { 'Content-Type': 'application/json' },
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.parseHeaders(lokiConfig.headers),
+      },
+      // Private CA, client certificate or SNI for https:// URLs
+      httpsAgent: this.tlsCredentials.isConfigured()
+        ? new https.Agent(this.tlsCredentials.options)
+        : undefined,
     });
 
-    // Add authentication if configured
-    if (lokiConfig.username && lokiConfig.password) {
+    // Add authentication if configured; a bearer token replaces basic auth
+    if (lokiConfig.bearerToken) {
+      client.defaults.headers.common.Authorization = `Bearer ${lokiConfig.bearerToken}`;
+    } else if (lokiConfig.username && lokiConfig.password) {
       client.defaults.auth = {
         username: lokiConfig.username,
         password: lokiConfig.password,
@@ -72,31 +256,45 @@ export class LokiService implements OnModuleDestroy {
     return client;
   }
 
+  // Throws on a malformed entry so misconfiguration fails at startup
+  private parseHeaders(headers: string[]): Record<string, string> {
+    return Object.fromEntries(
+      headers.map((header) => {
+        const separator = header.indexOf('=');
+        if (separator <= 0) {
+          throw new Error(
+            `Invalid Loki header "${header}": expected <header>=<value>`,
+          );
+        }
+        return [
+          header.slice(0, separator).trim(),
+          header.slice(separator + 1).trim(),
+        ];
+      }),
+    );
+  }
+
   async pushLog(entry: LogEntry): Promise<void> {
     if (this.isShuttingDown) {
       this.logger.warn('Service is shutting down, rejecting new logs');
+      this.metricsService.recordLogsDropped('shutting_down', 1);
       return;
     }
 
     // Validate log entry
     if (!entry.message || !entry.device_id || !entry.severity) {
       this.logger.warn('Invalid log entry, skipping', entry);
+      this.metricsService.recordLogsDropped('invalid', 1);
       return;
     }
 
-    this.logBuffer.push({
-      ...entry,
-      timestamp: entry.timestamp || new Date(),
-    });
-
-    if (this.logBuffer.length >= this.config.loki.batchSize) {
-      await this.flushLogs();
-    }
+    await this.pushLogs([entry]);
   }
 
   async pushLogs(entries: LogEntry[]): Promise<void> {
     if (this.isShuttingDown) {
       this.logger.warn('Service is shutting down, rejecting new logs');
+      this.metricsService.recordLogsDropped('shutting_down', entries.length);
       return;
     }
 
@@ -105,150 +303,373 @@ export class LokiService implements OnModuleDestroy {
       .filter((entry) => {
         if (!entry.message || !entry.device_id || !entry.severity) {
           this.logger.warn('Invalid log entry, skipping', entry);
+          this.metricsService.recordLogsDropped('invalid', 1);
           return false;
         }
         return true;
       })
       .map((entry) => ({
         ...entry,
-        timestamp: entry.timestamp || new Date(),
+        timestamp: this.toReceiveTimestamp(entry.timestamp),
       }));
 
-    this.logBuffer.push(...validEntries);
+    // Group by tenant so each tenant's buffer receives its own entries
+    const entriesByTenant = new Map<string | undefined, LogEntry[]>();
+    validEntries.forEach((entry) => {
+      const tenant = this.tenantResolver.resolve(entry);
+      const tenantEntries = entriesByTenant.get(tenant) ?? [];
+      tenantEntries.push(entry);
+      entriesByTenant.set(tenant, tenantEntries);
+    });
 
-    if (this.logBuffer.length >= this.config.loki.batchSize) {
-      await this.flushLogs();
+    const fullQueues: TenantQueue[] = [];
+    entriesByTenant.forEach((tenantEntries, tenant) => {
+      const queue = this.getTenantQueue(tenant);
+      this.bufferLogs(queue, tenantEntries);
+      if (queue.buffer.size() >= this.config.loki.batchSize) {
+        fullQueues.push(queue);
+      }
+    });
+
+    await Promise.all(fullQueues.map((queue) => this.flushLogs(queue)));
+  }
+
+  private bufferLogs(queue: TenantQueue, entries: LogEntry[]): void {
+    const dropped = queue.buffer.append(entries);
+    entries.forEach((entry) =>
+      this.metricsService.recordLogsIngested(entry.severity),
+    );
+    if (dropped > 0) {
+      queue.droppedLogs += dropped;
+      this.metricsService.recordLogsDropped('buffer_full', dropped);
+      this.logger.warn(
+        `Log buffer full, dropped ${dropped} oldest logs${this.describeTenant(queue)}`,
+      );
     }
+    this.metricsService.setBufferedLogs(this.getBufferedCount());
   }
 
   private startBatchProcessing(): void {
     this.intervalId = setInterval(() => {
-      // eslint-disable-next-line @typescript-eslint/no-misused-promises
-      if (this.logBuffer.length > 0 && !this.isShuttingDown) {
-        void this.flushLogs();
-      }
+      this.tenantQueues.forEach((queue) => {
+        if (queue.buffer instanceof DiskSegmentQueue) {
+          queue.buffer.sync();
+        }
+        if (queue.buffer.size() > 0 && !this.isShuttingDown) {
+          void this.flushLogs(queue);
+        }
+      });
     }, this.config.loki.flushInterval);
   }
 
-  private async flushLogs(): Promise<void> {
-    if (this.logBuffer.length === 0) return;
+  // Only one flush per tenant runs at a time; concurrent callers share it
+  private flushLogs(queue: TenantQueue, force = false): Promise<void> {
+    if (!queue.flushInProgress) {
+      queue.flushInProgress = this.drainBuffer(queue, force).finally(() => {
+        queue.flushInProgress = undefined;
+      });
+    }
+    return queue.flushInProgress;
+  }
 
-    const logsToSend = [...this.logBuffer];
-    this.logBuffer = [];
+  private async drainBuffer(queue: TenantQueue, force: boolean): Promise<void> {
+    // While backing off, only an explicit flush may contact Loki early
+    const nextRetryAt = queue.retryStatus.nextRetryAt;
+    if (!force && nextRetryAt && nextRetryAt.getTime() > Date.now()) {
+      return;
+    }
 
-    try {
-      const lokiRequest = this.convertToLokiFormat(logsToSend);
-      await this.sendToLoki(lokiRequest);
-      this.lastFlush = new Date();
-      this.lastError = undefined;
-      this.logger.log(`Successfully sent ${logsToSend.length} logs to Loki`);
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error';
-      this.lastError = errorMessage;
-      this.logger.error(`Failed to send logs to Loki: ${errorMessage}`);
-
-      // Put logs back to buffer for retry (but limit buffer size to prevent memory issues)
-      if (this.logBuffer.length < 1000) {
-        this.logBuffer.unshift(...logsToSend);
-      } else {
-        this.logger.warn(`Log buffer full, dropping ${logsToSend.length} logs`);
+    while (queue.buffer.size() > 0) {
+      const batch = queue.buffer.peek(this.config.loki.batchSize);
+      const logsToSend = batch.entries;
+      const startedAt = process.hrtime.bigint();
+      const elapsedSeconds = () =>
+        Number(process.hrtime.bigint() - startedAt) / 1e9;
+
+      try {
+        const lokiRequest = this.convertToLokiFormat(logsToSend);
+        await this.sendToLoki(lokiRequest, queue.tenant);
+        this.metricsService.recordLokiPush(
+          true,
+          204,
+          elapsedSeconds(),
+          logsToSend.length,
+        );
+        queue.buffer.ack(batch.end);
+        this.metricsService.setBufferedLogs(this.getBufferedCount());
+        queue.sentLogs += logsToSend.length;
+        queue.lastFlush = new Date();
+        queue.lastError = undefined;
+        this.resetRetryState(queue);
+        this.logger.log(
+          `Successfully sent ${logsToSend.length} logs to Loki${this.describeTenant(queue)}`,
+        );
+      } catch (error) {
+        const pushError = toLokiPushError(error);
+        queue.lastError = pushError.message;
+        this.metricsService.recordLokiPush(
+          false,
+          pushError.status,
+          elapsedSeconds(),
+          logsToSend.length,
+        );
+
+        if (!pushError.retryable) {
+          // Loki will never accept this batch, so do not let it block the rest
+          queue.buffer.ack(batch.end);
+          this.deadLetterService.add({
+            source: 'loki',
+            payload: JSON.stringify(logsToSend),
+            reason: pushError.message,
+            attempts: queue.retryStatus.consecutiveFailures + 1,
+          });
+          queue.retryStatus.rejectedBatches++;
+          queue.retryStatus.rejectedLogs += logsToSend.length;
+          this.metricsService.recordLogsDropped('rejected', logsToSend.length);
+          this.metricsService.setBufferedLogs(this.getBufferedCount());
+          this.logger.error(
+            `Loki rejected ${logsToSend.length} logs permanently${this.describeTenant(queue)}, moved batch to dead letters: ${pushError.message}`,
+          );
+          continue;
+        }
+
+        // Logs stay at the head of the buffer and are retried after a backoff
+        this.scheduleRetry(queue, pushError);
+        return;
+      }
+    }
+  }
+
+  // Entries with a missing or unparseable timestamp get the receive time
+  private toReceiveTimestamp(timestamp?: Date | string): Date {
+    const date = timestamp ? new Date(timestamp) : undefined;
+    return date && !Number.isNaN(date.getTime()) ? date : new Date();
+  }
+
+  private parseDeadLetterEntries(payload: string): LogEntry[] {
+    return (JSON.parse(payload) as LogEntry[]).map((entry) => ({
+      ...entry,
+      timestamp: entry.timestamp ? new Date(entry.timestamp) : undefined,
+    }));
+  }
+
+  private scheduleRetry(queue: TenantQueue, pushError: LokiPushError): void {
+    const { retryBaseDelay, retryMaxDelay } = this.config.loki;
+    const retryStatus = queue.retryStatus;
+    retryStatus.consecutiveFailures++;
+    retryStatus.totalRetries++;
+
+    const delay =
+      pushError.retryAfterMs ??
+      computeBackoffDelay(
+        retryStatus.consecutiveFailures,
+        retryBaseDelay,
+        retryMaxDelay,
+      );
+    retryStatus.lastDelayMs = delay;
+    retryStatus.nextRetryAt = new Date(Date.now() + delay);
+
+    this.logger.error(
+      `Failed to send logs to Loki${this.describeTenant(queue)} (attempt ${retryStatus.consecutiveFailures}), retrying in ${delay}ms: ${pushError.message}`,
+    );
+
+    if (queue.retryTimer) {
+      clearTimeout(queue.retryTimer);
+    }
+    queue.retryTimer = setTimeout(() => {
+      queue.retryTimer = undefined;
+      if (!this.isShuttingDown) {
+        void this.flushLogs(queue);
       }
+    }, delay);
+  }
+
+  private resetRetryState(queue: TenantQueue): void {
+    queue.retryStatus.consecutiveFailures = 0;
+    queue.retryStatus.nextRetryAt = undefined;
+    queue.retryStatus.lastDelayMs = undefined;
+    if (queue.retryTimer) {
+      clearTimeout(queue.retryTimer);
+      queue.retryTimer = undefined;
     }
   }
 
+  private describeTenant(queue: TenantQueue): string {
+    return queue.tenant ? ` for tenant ${queue.tenant}` : '';
+  }
+
+  private getBufferedCount(): number {
+    let count = 0;
+    this.tenantQueues.forEach((queue) => (count += queue.buffer.size()));
+    return count;
+  }
+
   private convertToLokiFormat(entries: LogEntry[]): LokiPushRequest {
-    // Group logs by labels to create streams
-    const streamMap = new Map<string, LogEntry[]>();
+    // Group logs by their stream labels
+    const streamMap = new Map<string, LokiStream>();
 
     entries.forEach((entry) => {
-      const labels = {
-        severity: entry.severity,
-        device_id: entry.device_id,
-        ...entry.labels,
-      };
+      const { labels, line, structuredMetadata } =
+        this.labelPolicy.shape(entry);
 
       const streamKey = JSON.stringify(labels);
-      if (!streamMap.has(streamKey)) {
-        streamMap.set(streamKey, []);
+      let stream = streamMap.get(streamKey);
+      if (!stream) {
+        stream = { stream: labels, values: [] };
+        streamMap.set(streamKey, stream);
       }
-      streamMap.get(streamKey)!.push(entry);
+
+      // Convert timestamp to nanoseconds for Loki; string concatenation
+      // stays exact where multiplying would lose precision
+      const timestamp = entry.timestamp || new Date();
+      const nanoseconds = `${timestamp.getTime()}000000`;
+      stream.values.push(
+        structuredMetadata
+          ? [nanoseconds, line, structuredMetadata]
+          : [nanoseconds, line],
+      );
     });
 
-    // Convert to Loki format
-    const streams: LokiStream[] = [];
+    return { streams: Array.from(streamMap.values()) };
+  }
 
-    streamMap.forEach((logs, streamKey) => {
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-      const labels = JSON.parse(streamKey);
+  private async sendToLoki(
+    request: LokiPushRequest,
+    tenant?: string,
+  ): Promise<void> {
+    let encoded: EncodedPushRequest;
+    try {
+      encoded = encodePushRequest(request, this.config.loki.encoding);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      // Encoding the same batch again would fail the same way
+      throw new LokiPushError(
+        `Failed to encode push request: ${errorMessage}`,
+        false,
+      );
+    }
 
-      const values: Array<[string, string]> = logs.map((log) => {
-        // Convert timestamp to nanoseconds for Loki
-        const timestamp = log.timestamp || new Date();
-        const nanoseconds = (timestamp.getTime() * 1000000).toString();
-        return [nanoseconds, log.message];
+    try {
+      // Loki answers 204, but proxies in front of it may answer 200 or 202;
+      // axios already rejects anything outside 2xx
+      const { body, headers } = encoded;
+      await this.httpClient.post('/loki/api/v1/push', body, {
+        headers: { ...headers, ...this.tenantHeaders(tenant) },
       });
-
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-      streams.push({ stream: labels, values });
-    });
-
-    return { streams };
+    } catch (error) {
+      throw toLokiPushError(error);
+    }
   }
 
-  private async sendToLoki(request: LokiPushRequest): Promise<void> {
+  // Queries the given tenant, or the default tenant when none is given
+  async queryRange(
+    params: LokiQueryRangeParams,
+    tenant = this.tenantResolver.getDefaultTenant(),
+  ): Promise<LokiQueryRangeResponse> {
     try {
-      const response = await this.httpClient.post('/loki/api/v1/push', request);
-
-      if (response.status !== 204) {
-        throw new Error(`Unexpected response status: ${response.status}`);
-      }
+      const response = await this.httpClient.get<LokiQueryRangeResponse>(
+        '/loki/api/v1/query_range',
+        { params, headers: this.tenantHeaders(tenant) },
+      );
+      return response.data;
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-        const data = error.response?.data;
-        throw new Error(`Loki API error: ${status} - ${JSON.stringify(data)}`);
+      if (axios.isAxiosError(error) && error.response) {
+        const { status } = error.response;
+        const data: unknown = error.response.data;
+        throw new Error(
+          `Loki query error: ${status} - ${JSON.stringify(data)}`,
+        );
       }
       throw error;
     }
   }
 
+  private tenantHeaders(tenant?: string): Record<string, string> {
+    return tenant ? { 'X-Scope-OrgID': tenant } : {};
+  }
+
+  getDefaultTenant(): string | undefined {
+    return this.tenantResolver.getDefaultTenant();
+  }
+
   // Health check methods
-  getStatus(): {
-    status: string;
-    bufferedLogs: number;
-    lastFlush?: Date;
-    lastError?: string;
-  } {
+  getCertificates(): CertificateStatus[] {
+    return this.tlsCredentials.getCertificates();
+  }
+
+  getStatus(): LokiServiceStatus {
+    const tenants = Array.from(this.tenantQueues.values()).map((queue) =>
+      this.getTenantStatus(queue),
+    );
+    const lastFlushes = tenants
+      .map((tenant) => tenant.lastFlush?.getTime())
+      .filter((time): time is number => time !== undefined);
+    const backlogs = tenants
+      .map((tenant) => tenant.diskBacklog)
+      .filter((backlog): backlog is LokiBacklogStatus => !!backlog);
+    const lastError = tenants.find((tenant) => tenant.lastError)?.lastError;
+
     return {
-      status: this.lastError ? 'error' : 'active',
-      bufferedLogs: this.logBuffer.length,
-      lastFlush: this.lastFlush,
-      lastError: this.lastError,
+      status: lastError ? 'error' : 'active',
+      bufferedLogs: sum(tenants.map((tenant) => tenant.bufferedLogs)),
+      lastFlush:
+        lastFlushes.length > 0 ? new Date(Math.max(...lastFlushes)) : undefined,
+      lastError,
+      sentLogs: sum(tenants.map((tenant) => tenant.sentLogs)),
+      droppedLogs: sum(tenants.map((tenant) => tenant.droppedLogs)),
+      retry: mergeRetryStatus(tenants.map((tenant) => tenant.retry)),
+      ...(backlogs.length > 0 && { diskBacklog: mergeBacklogs(backlogs) }),
+      labels: this.labelPolicy.getStatus(),
+      tenants,
+    };
+  }
+
+  private getTenantStatus(queue: TenantQueue): LokiTenantStatus {
+    return {
+      tenant: queue.tenant,
+      status: queue.lastError ? 'error' : 'active',
+      bufferedLogs: queue.buffer.size(),
+      lastFlush: queue.lastFlush,
+      lastError: queue.lastError,
+      sentLogs: queue.sentLogs,
+      droppedLogs: queue.droppedLogs,
+      retry: { ...queue.retryStatus },
+      ...(queue.buffer instanceof DiskSegmentQueue && {
+        diskBacklog: queue.buffer.getStatus(),
+      }),
     };
   }
 
   // Force flush for testing or immediate sending
   async forceFlush(): Promise<void> {
-    await this.flushLogs();
+    await Promise.all(
+      Array.from(this.tenantQueues.values()).map((queue) =>
+        this.flushLogs(queue, true),
+      ),
+    );
   }
 
   async onModuleDestroy(): Promise<void> {
     this.isShuttingDown = true;
+    this.removeConfigListener?.();
 
     if (this.intervalId) {
       clearInterval(this.intervalId);
     }
+    this.tenantQueues.forEach((queue) => {
+      if (queue.retryTimer) {
+        clearTimeout(queue.retryTimer);
+      }
+    });
 
     // Flush remaining logs before shutdown with timeout
-    if (this.logBuffer.length > 0) {
-      this.logger.log(
-        `Flushing ${this.logBuffer.length} remaining logs before shutdown`,
-      );
+    const remaining = this.getBufferedCount();
+    if (remaining > 0) {
+      this.logger.log(`Flushing ${remaining} remaining logs before shutdown`);
       try {
         await Promise.race([
-          this.flushLogs(),
+          this.forceFlush(),
           new Promise((_, reject) =>
             setTimeout(() => reject(new Error('Flush timeout')), 5000),
           ),
@@ -259,5 +680,45 @@ export class LokiService implements OnModuleDestroy {
         );
       }
     }
+
+    // Anything still pending stays on disk when the WAL is enabled
+    this.tenantQueues.forEach((queue) => queue.buffer.close());
   }
 }
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function mergeRetryStatus(statuses: LokiRetryStatus[]): LokiRetryStatus {
+  const nextRetries = statuses
+    .map((status) => status.nextRetryAt?.getTime())
+    .filter((time): time is number => time !== undefined);
+
+  return {
+    consecutiveFailures: Math.max(
+      0,
+      ...statuses.map((status) => status.consecutiveFailures),
+    ),
+    totalRetries: sum(statuses.map((status) => status.totalRetries)),
+    rejectedBatches: sum(statuses.map((status) => status.rejectedBatches)),
+    rejectedLogs: sum(statuses.map((status) => status.rejectedLogs)),
+    ...(nextRetries.length > 0 && {
+      nextRetryAt: new Date(Math.min(...nextRetries)),
+    }),
+  };
+}
+
+function mergeBacklogs(backlogs: LokiBacklogStatus[]): LokiBacklogStatus {
+  const ages = backlogs
+    .map((backlog) => backlog.oldestEntryAgeMs)
+    .filter((age): age is number => age !== undefined);
+
+  return {
+    pendingEntries: sum(backlogs.map((backlog) => backlog.pendingEntries)),
+    bytesOnDisk: sum(backlogs.map((backlog) => backlog.bytesOnDisk)),
+    segments: sum(backlogs.map((backlog) => backlog.segments)),
+    ...(ages.length > 0 && { oldestEntryAgeMs: Math.max(...ages) }),
+    droppedEntries: sum(backlogs.map((backlog) => backlog.droppedEntries)),
+  };
+}
@@ -0,0 +1,98 @@
+import { AxiosError, AxiosHeaders, AxiosResponse } from 'axios';
+import {
+  computeBackoffDelay,
+  LokiPushError,
+  parseRetryAfter,
+  toLokiPushError,
+} from './retry-policy';
+
+function httpError(
+  status: number,
+  headers: Record<string, string> = {},
+): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  const response: AxiosResponse = {
+    status,
+    statusText: '',
+    data: { error: 'rejected' },
+    headers,
+    config,
+  };
+  return new AxiosError(
+    'Request failed',
+    'ERR_BAD_RESPONSE',
+    config,
+    {},
+    response,
+  );
+}
+
+describe('toLokiPushError', () => {
+  it('retries network errors', () => {
+    const error = new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED');
+
+    expect(toLokiPushError(error)).toMatchObject({
+      retryable: true,
+      status: undefined,
+    });
+  });
+
+  it.each([408, 429, 500, 502, 503])('retries HTTP %i', (status) => {
+    expect(toLokiPushError(httpError(status))).toMatchObject({
+      retryable: true,
+      status,
+    });
+  });
+
+  it.each([400, 401, 403, 404, 413])('does not retry HTTP %i', (status) => {
+    expect(toLokiPushError(httpError(status))).toMatchObject({
+      retryable: false,
+      status,
+    });
+  });
+
+  it('uses Retry-After on 429', () => {
+    const error = httpError(429, { 'retry-after': '7' });
+
+    expect(toLokiPushError(error).retryAfterMs).toBe(7000);
+  });
+
+  it('does not retry local errors', () => {
+    const error = new RangeError('Invalid time value');
+
+    expect(toLokiPushError(error)).toMatchObject({
+      retryable: false,
+      message: 'Invalid time value',
+    });
+  });
+
+  it('keeps an already classified error', () => {
+    const error = new LokiPushError('encoding failed', false);
+
+    expect(toLokiPushError(error)).toBe(error);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+  });
+
+  it('ignores missing and malformed values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('doubles per attempt up to the maximum', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect(computeBackoffDelay(1, 100, 1000)).toBe(100);
+    expect(computeBackoffDelay(3, 100, 1000)).toBe(400);
+    expect(computeBackoffDelay(10, 100, 1000)).toBe(1000);
+  });
+});
@@ -0,0 +1,69 @@
+import axios from 'axios';
+
+export class LokiPushError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly status?: number,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'LokiPushError';
+  }
+}
+
+/**
+ * Classifies a failed push. Network errors, timeouts, 408, 429 and 5xx are
+ * retryable; any other 4xx means Loki will never accept the batch as sent.
+ * Errors raised locally, such as a batch that cannot be serialised, would
+ * recur on every attempt and are permanent too.
+ */
+export function toLokiPushError(error: unknown): LokiPushError {
+  if (error instanceof LokiPushError) return error;
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    if (status === undefined) {
+      return new LokiPushError(`Loki request failed: ${error.message}`, true);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const data = error.response?.data;
+    const message = `Loki API error: ${status} - ${JSON.stringify(data)}`;
+    if (status === 429) {
+      return new LokiPushError(
+        message,
+        true,
+        status,
+        parseRetryAfter(error.response?.headers['retry-after']),
+      );
+    }
+    return new LokiPushError(message, status >= 500 || status === 408, status);
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new LokiPushError(message, false);
+}
+
+/** Parses a Retry-After header given either in seconds or as an HTTP date. */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Exponential backoff with "equal jitter": half fixed, half random. */
+export function computeBackoffDelay(
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number,
+): number {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** Math.max(0, attempt - 1));
+  return Math.round(delay / 2 + (Math.random() * delay) / 2);
+}
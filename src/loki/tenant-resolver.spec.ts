@@ -0,0 +1,61 @@
+import 'reflect-metadata';
+import { LogEntry, LogSeverity } from '../types';
+import { TenantResolver } from './tenant-resolver';
+
+describe('TenantResolver', () => {
+  const entry = (
+    topic?: string,
+    labels?: Record<string, string>,
+  ): LogEntry => ({
+    message: 'reading',
+    device_id: 'sensor-1',
+    severity: LogSeverity.INFO,
+    topic,
+    labels,
+  });
+
+  it('routes by topic filter, template or label, first match first', () => {
+    const resolver = new TenantResolver(
+      [
+        'label:customer=acme=acme',
+        'customers/{customer}/devices/+/logs=shared',
+        'factory/#=factory',
+      ],
+      'default',
+    );
+
+    expect(resolver.resolve(entry('factory/line-1/logs'))).toBe('factory');
+    expect(resolver.resolve(entry('customers/x/devices/1/logs'))).toBe(
+      'shared',
+    );
+    expect(
+      resolver.resolve(entry('factory/line-1/logs', { customer: 'acme' })),
+    ).toBe('acme');
+  });
+
+  it('falls back to the default tenant, which may be unset', () => {
+    expect(
+      new TenantResolver(['factory/#=factory'], 'default').resolve(
+        entry('home/logs'),
+      ),
+    ).toBe('default');
+    expect(new TenantResolver(['factory/#=factory']).resolve(entry())).toBe(
+      undefined,
+    );
+  });
+
+  it('rejects malformed rules and invalid tenant IDs', () => {
+    expect(() => new TenantResolver(['factory/#'])).toThrow(
+      'expected <selector>=<tenant>',
+    );
+    expect(() => new TenantResolver(['label:customer=acme'])).toThrow(
+      'expected label:<name>=<value>=<tenant>',
+    );
+    expect(() => new TenantResolver(['factory/#=a/b'])).toThrow(
+      'Invalid Loki tenant ID "a/b"',
+    );
+    expect(() => new TenantResolver([], 'not valid')).toThrow(
+      'Invalid Loki tenant ID "not valid" in LOKI_TENANT_ID',
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { LogEntry } from '../types';
+import { matchesTopicFilter } from '../mqtt/topic-matcher';
+import { parseTopicTemplate } from '../mqtt/topic-template';
+
+type TenantSelector =
+  | { kind: 'topic'; filter: string }
+  | { kind: 'label'; name: string; value: string };
+
+interface TenantRule {
+  selector: TenantSelector;
+  tenant: string;
+}
+
+// Characters Loki accepts in a tenant ID (X-Scope-OrgID)
+const TENANT_ID_PATTERN = /^[a-zA-Z0-9!._*'()-]{1,150}$/;
+const LABEL_PREFIX = 'label:';
+
+/**
+ * Maps log entries to Loki tenants. Rules look like
+ * `<topic filter or template>=<tenant>` or `label:<name>=<value>=<tenant>`;
+ * the first match wins and unmatched entries go to the default tenant.
+ */
+export class TenantResolver {
+  private readonly rules: TenantRule[];
+
+  constructor(
+    rules: string[],
+    private readonly defaultTenant?: string,
+  ) {
+    if (defaultTenant !== undefined) {
+      assertTenantId(defaultTenant, 'LOKI_TENANT_ID');
+    }
+    this.rules = rules.map((rule) => parseRule(rule));
+  }
+
+  resolve(entry: LogEntry): string | undefined {
+    const rule = this.rules.find(({ selector }) =>
+      selector.kind === 'topic'
+        ? entry.topic !== undefined &&
+          matchesTopicFilter(selector.filter, entry.topic)
+        : entry.labels?.[selector.name] === selector.value,
+    );
+    return rule ? rule.tenant : this.defaultTenant;
+  }
+
+  getDefaultTenant(): string | undefined {
+    return this.defaultTenant;
+  }
+}
+
+function parseRule(rule: string): TenantRule {
+  const separator = rule.lastIndexOf('=');
+  if (separator <= 0) {
+    throw new Error(
+      `Invalid Loki tenant rule "${rule}": expected <selector>=<tenant>`,
+    );
+  }
+
+  const selector = rule.slice(0, separator).trim();
+  const tenant = rule.slice(separator + 1).trim();
+  assertTenantId(tenant, `tenant rule "${rule}"`);
+
+  if (!selector.startsWith(LABEL_PREFIX)) {
+    return {
+      selector: { kind: 'topic', filter: parseTopicTemplate(selector).filter },
+      tenant,
+    };
+  }
+
+  const label = selector.slice(LABEL_PREFIX.length);
+  const equals = label.indexOf('=');
+  if (equals <= 0) {
+    throw new Error(
+      `Invalid Loki tenant rule "${rule}": expected label:<name>=<value>=<tenant>`,
+    );
+  }
+  return {
+    selector: {
+      kind: 'label',
+      name: label.slice(0, equals),
+      value: label.slice(equals + 1),
+    },
+    tenant,
+  };
+}
+
+function assertTenantId(tenant: string, source: string): void {
+  if (!TENANT_ID_PATTERN.test(tenant)) {
+    throw new Error(`Invalid Loki tenant ID "${tenant}" in ${source}`);
+  }
+}
@@ -0,0 +1,19 @@
+import { Controller, Get, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { MetricsService } from './metrics.service';
+import { Public } from '../auth/auth.decorators';
+
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  // Prometheus scrapes without credentials by default
+  @Get()
+  @Public()
+  async getMetrics(
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<string> {
+    response.setHeader('Content-Type', this.metricsService.contentType);
+    return this.metricsService.getMetrics();
+  }
+}
@@ -0,0 +1,61 @@
+import 'reflect-metadata';
+import { LogSeverity } from '../types';
+import { MetricsService } from './metrics.service';
+
+describe('MetricsService', () => {
+  let metrics: MetricsService;
+
+  beforeEach(() => {
+    metrics = new MetricsService();
+  });
+
+  it('counts MQTT messages per topic pattern', async () => {
+    metrics.recordMqttMessage('devices/+/logs');
+    metrics.recordMqttMessage('devices/+/logs');
+    metrics.recordParseFailure('devices/+/logs');
+
+    const output = await metrics.getMetrics();
+    expect(output).toContain(
+      'smtrack_mqtt_messages_received_total{topic_pattern="devices/+/logs"} 2',
+    );
+    expect(output).toContain(
+      'smtrack_mqtt_parse_failures_total{topic_pattern="devices/+/logs"} 1',
+    );
+  });
+
+  it('labels Loki pushes by result and status code', async () => {
+    metrics.recordLokiPush(true, 204, 0.02, 10);
+    metrics.recordLokiPush(false, undefined, 5, 10);
+
+    const output = await metrics.getMetrics();
+    expect(output).toContain(
+      'smtrack_loki_pushes_total{result="success",status_code="204"} 1',
+    );
+    expect(output).toContain(
+      'smtrack_loki_pushes_total{result="failure",status_code="none"} 1',
+    );
+    expect(output).toContain('smtrack_loki_batch_size_count 2');
+  });
+
+  it('reports gauges as their latest value', async () => {
+    metrics.setIngestionQueue(42, true);
+    metrics.setIngestionQueue(7, false);
+    metrics.recordLogsDropped('rate_limited', 3);
+
+    const output = await metrics.getMetrics();
+    expect(output).toContain('smtrack_ingestion_queue_depth 7');
+    expect(output).toContain('smtrack_mqtt_paused 0');
+    expect(output).toContain(
+      'smtrack_logs_dropped_total{reason="rate_limited"} 3',
+    );
+  });
+
+  it('keeps a separate registry per instance', async () => {
+    metrics.recordLogsIngested(LogSeverity.ERROR);
+    const other = new MetricsService();
+
+    expect(await other.getMetrics()).not.toContain(
+      'smtrack_logs_ingested_total{severity="error"}',
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client';
+import { LogSeverity } from '../types';
+
+export type DropReason =
+  | 'buffer_full'
+  | 'rejected'
+  | 'invalid'
+  | 'shutting_down'
+  | 'rate_limited'
+  | 'duplicate'
+  | 'queue_full';
+
+@Injectable()
+export class MetricsService {
+  private readonly registry = new Registry();
+
+  private readonly mqttMessagesReceived = new Counter({
+    name: 'smtrack_mqtt_messages_received_total',
+    help: 'MQTT messages received, by subscription topic pattern',
+    labelNames: ['topic_pattern'],
+    registers: [this.registry],
+  });
+
+  private readonly mqttParseFailures = new Counter({
+    name: 'smtrack_mqtt_parse_failures_total',
+    help: 'MQTT payloads that could not be decoded as structured messages',
+    labelNames: ['topic_pattern'],
+    registers: [this.registry],
+  });
+
+  private readonly mqttProcessingFailures = new Counter({
+    name: 'smtrack_mqtt_processing_failures_total',
+    help: 'MQTT messages that failed processing and were dead-lettered',
+    labelNames: ['topic_pattern'],
+    registers: [this.registry],
+  });
+
+  private readonly mqttConnected = new Gauge({
+    name: 'smtrack_mqtt_connected',
+    help: 'Whether the MQTT client is connected (1) or not (0)',
+    registers: [this.registry],
+  });
+
+  private readonly ingestionQueueDepth = new Gauge({
+    name: 'smtrack_ingestion_queue_depth',
+    help: 'MQTT messages waiting in the ingestion queue',
+    registers: [this.registry],
+  });
+
+  private readonly mqttPaused = new Gauge({
+    name: 'smtrack_mqtt_paused',
+    help: 'Whether MQTT intake is paused by a full ingestion queue (1) or not (0)',
+    registers: [this.registry],
+  });
+
+  private readonly logsIngested = new Counter({
+    name: 'smtrack_logs_ingested_total',
+    help: 'Log entries accepted into the Loki buffer, by severity',
+    labelNames: ['severity'],
+    registers: [this.registry],
+  });
+
+  private readonly logsDropped = new Counter({
+    name: 'smtrack_logs_dropped_total',
+    help: 'Log entries dropped before reaching Loki, by reason',
+    labelNames: ['reason'],
+    registers: [this.registry],
+  });
+
+  private readonly bufferedLogs = new Gauge({
+    name: 'smtrack_loki_buffered_logs',
+    help: 'Log entries waiting to be pushed to Loki',
+    registers: [this.registry],
+  });
+
+  private readonly lokiPushes = new Counter({
+    name: 'smtrack_loki_pushes_total',
+    help: 'Loki push requests, by result and HTTP status code',
+    labelNames: ['result', 'status_code'],
+    registers: [this.registry],
+  });
+
+  private readonly lokiPushDuration = new Histogram({
+    name: 'smtrack_loki_push_duration_seconds',
+    help: 'Latency of Loki push requests',
+    buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [this.registry],
+  });
+
+  private readonly lokiBatchSize = new Histogram({
+    name: 'smtrack_loki_batch_size',
+    help: 'Number of log entries per Loki push request',
+    buckets: [1, 5, 10, 25, 50, 100, 250, 500, 1000],
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  getMetrics(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  recordMqttMessage(topicPattern: string): void {
+    this.mqttMessagesReceived.inc({ topic_pattern: topicPattern });
+  }
+
+  recordParseFailure(topicPattern: string): void {
+    this.mqttParseFailures.inc({ topic_pattern: topicPattern });
+  }
+
+  recordProcessingFailure(topicPattern: string): void {
+    this.mqttProcessingFailures.inc({ topic_pattern: topicPattern });
+  }
+
+  setMqttConnected(connected: boolean): void {
+    this.mqttConnected.set(connected ? 1 : 0);
+  }
+
+  setIngestionQueue(depth: number, paused: boolean): void {
+    this.ingestionQueueDepth.set(depth);
+    this.mqttPaused.set(paused ? 1 : 0);
+  }
+
+  recordLogsIngested(severity: LogSeverity, count = 1): void {
+    this.logsIngested.inc({ severity }, count);
+  }
+
+  recordLogsDropped(reason: DropReason, count: number): void {
+    this.logsDropped.inc({ reason }, count);
+  }
+
+  setBufferedLogs(count: number): void {
+    this.bufferedLogs.set(count);
+  }
+
+  recordLokiPush(
+    success: boolean,
+    statusCode: number | undefined,
+    durationSeconds: number,
+    batchSize: number,
+  ): void {
+    this.lokiPushes.inc({
+      result: success ? 'success' : 'failure',
+      status_code: statusCode?.toString() ?? 'none',
+    });
+    this.lokiPushDuration.observe(durationSeconds);
+    this.lokiBatchSize.observe(batchSize);
+  }
+}
@@ -0,0 +1,83 @@
+import 'reflect-metadata';
+import { ConfigType } from '@nestjs/config';
+import configuration from '../config/configuration';
+import { LogStreamService } from '../log-stream/log-stream.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { LogSinkService } from '../sinks/log-sink.service';
+import { LogEntry, LogSeverity } from '../types';
+import { DedupService } from './dedup.service';
+
+describe('DedupService', () => {
+  const timestamp = new Date('2025-01-01T12:00:00Z');
+  let service: DedupService;
+  let recordLogsDropped: jest.Mock;
+
+  const entry = (overrides: Partial<LogEntry> = {}): LogEntry => ({
+    message: 'Door opened',
+    device_id: 'device-1',
+    severity: LogSeverity.INFO,
+    topic: 'devices/device-1/logs',
+    timestamp,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    recordLogsDropped = jest.fn();
+    service = new DedupService(
+      {
+        dedup: {
+          enabled: true,
+          window: 60000,
+          repeatWindow: 10000,
+          maxRunDuration: 60000,
+        },
+      } as ConfigType<typeof configuration>,
+      { write: jest.fn() } as unknown as LogSinkService,
+      { publish: jest.fn() } as unknown as LogStreamService,
+      { recordLogsDropped } as unknown as MetricsService,
+    );
+  });
+
+  it('drops an exact duplicate', () => {
+    expect(service.process([entry(), entry()])).toHaveLength(1);
+    expect(recordLogsDropped).toHaveBeenCalledWith('duplicate', 1);
+  });
+
+  it('treats metadata with the same fields in another order as equal', () => {
+    const first = entry({
+      metadata: { door: 'A', sensor: { id: 1, zone: 2 } },
+    });
+    const second = entry({
+      metadata: { sensor: { zone: 2, id: 1 }, door: 'A' },
+    });
+
+    expect(service.process([first, second])).toEqual([first]);
+  });
+
+  it('keeps messages whose metadata differs', () => {
+    const first = entry({ metadata: { door: 'A' } });
+    const second = entry({ metadata: { door: 'B' } });
+
+    expect(service.process([first, second])).toEqual([first, second]);
+    expect(recordLogsDropped).not.toHaveBeenCalled();
+  });
+
+  it('collapses a run of repeats once a different message arrives', () => {
+    const repeat = (second: number) =>
+      entry({ timestamp: new Date(timestamp.getTime() + second * 1000) });
+    const different = entry({ message: 'Door closed' });
+
+    const output = service.process([
+      repeat(0),
+      repeat(1),
+      repeat(2),
+      different,
+    ]);
+
+    expect(output).toEqual([
+      repeat(0),
+      { ...repeat(2), metadata: { repeated: 2 } },
+      different,
+    ]);
+  });
+});
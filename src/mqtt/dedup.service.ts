@@ -0,0 +1,182 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { createHash } from 'crypto';
+import configuration from '../config/configuration';
+import { LogStreamService } from '../log-stream/log-stream.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { LogSinkService } from '../sinks/log-sink.service';
+import { LogEntry } from '../types';
+
+// Consecutive identical messages from one device
+interface RepeatRun {
+  hash: string;
+  last: LogEntry;
+  repeats: number;
+  startedAt: number;
+  lastSeenAt: number;
+}
+
+const SWEEP_INTERVAL = 1000;
+
+/**
+ * Drops exact duplicates, such as QoS 1 redeliveries, and collapses runs of
+ * identical messages from a device. The first message of a run passes
+ * straight through. Its repeats are held back and emitted as one entry
+ * annotated with `repeated=N` once the run ends.
+ */
+@Injectable()
+export class DedupService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DedupService.name);
+  // Duplicate key -> time it stops counting as a duplicate
+  private readonly seen = new Map<string, number>();
+  private readonly runs = new Map<string, RepeatRun>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    @Inject(configuration.KEY)
+    private readonly config: ConfigType<typeof configuration>,
+    private readonly logSinkService: LogSinkService,
+    private readonly logStreamService: LogStreamService,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  onModuleInit(): void {
+    if (!this.config.dedup.enabled) return;
+
+    this.sweepTimer = setInterval(() => void this.sweep(), SWEEP_INTERVAL);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+
+    // Don't lose the repeat counts of runs still open at shutdown
+    const pending = Array.from(this.runs.values())
+      .filter((run) => run.repeats > 0)
+      .map((run) => this.collapse(run));
+    this.runs.clear();
+    await this.emit(pending);
+  }
+
+  /**
+   * Returns the entries that should continue down the pipeline, including
+   * collapsed entries for runs the new entries have ended.
+   */
+  process(entries: LogEntry[]): LogEntry[] {
+    if (!this.config.dedup.enabled) return entries;
+
+    const now = Date.now();
+    const output: LogEntry[] = [];
+
+    entries.forEach((entry) => {
+      const hash = this.hashEntry(entry);
+      const timestamp = entry.timestamp
+        ? new Date(entry.timestamp).getTime()
+        : '';
+      const duplicateKey = `${entry.device_id}:${timestamp}:${hash}`;
+      const expiresAt = this.seen.get(duplicateKey);
+      if (expiresAt !== undefined && expiresAt > now) {
+        this.metricsService.recordLogsDropped('duplicate', 1);
+        return;
+      }
+      this.seen.set(duplicateKey, now + this.config.dedup.window);
+
+      const run = this.runs.get(entry.device_id);
+      if (run && run.hash === hash) {
+        run.last = entry;
+        run.repeats++;
+        run.lastSeenAt = now;
+        return;
+      }
+
+      if (run && run.repeats > 0) {
+        output.push(this.collapse(run));
+      }
+      this.runs.set(entry.device_id, {
+        hash,
+        last: entry,
+        repeats: 0,
+        startedAt: now,
+        lastSeenAt: now,
+      });
+      output.push(entry);
+    });
+
+    return output;
+  }
+
+  private async sweep(): Promise<void> {
+    const now = Date.now();
+    const { repeatWindow, maxRunDuration } = this.config.dedup;
+    const collapsed: LogEntry[] = [];
+
+    this.seen.forEach((expiresAt, key) => {
+      if (expiresAt <= now) this.seen.delete(key);
+    });
+
+    this.runs.forEach((run, deviceId) => {
+      if (now - run.lastSeenAt >= repeatWindow) {
+        if (run.repeats > 0) collapsed.push(this.collapse(run));
+        this.runs.delete(deviceId);
+      } else if (run.repeats > 0 && now - run.startedAt >= maxRunDuration) {
+        // Still repeating; report what we have and keep collapsing
+        collapsed.push(this.collapse(run));
+        run.repeats = 0;
+        run.startedAt = now;
+      }
+    });
+
+    await this.emit(collapsed);
+  }
+
+  private async emit(entries: LogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    entries.forEach((entry) => this.logStreamService.publish(entry));
+    try {
+      await this.logSinkService.write(entries);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to write collapsed repeats: ${errorMessage}`);
+    }
+  }
+
+  // The latest repeat stands in for the whole run
+  private collapse(run: RepeatRun): LogEntry {
+    return {
+      ...run.last,
+      metadata: { ...run.last.metadata, repeated: run.repeats },
+    };
+  }
+
+  private hashEntry(entry: LogEntry): string {
+    return createHash('sha1')
+      .update(`${entry.severity}\0${entry.topic ?? ''}\0${entry.message}\0`)
+      .update(stableStringify(entry.metadata ?? {}))
+      .digest('hex');
+  }
+}
+
+// JSON with sorted object keys, so key order does not change the hash
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
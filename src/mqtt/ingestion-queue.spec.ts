@@ -0,0 +1,109 @@
+import { IngestionOverflowPolicy } from '../config/configuration';
+import { IngestionQueue } from './ingestion-queue';
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('IngestionQueue', () => {
+  let processed: string[];
+  let dropped: string[];
+  let pending: Array<() => void>;
+
+  // Items stay in the worker until finish() releases them in order
+  const createQueue = (overflowPolicy: IngestionOverflowPolicy, capacity = 2) =>
+    new IngestionQueue<string>(
+      { capacity, concurrency: 1, overflowPolicy },
+      (item) =>
+        new Promise<void>((resolve) =>
+          pending.push(() => {
+            processed.push(item);
+            resolve();
+          }),
+        ),
+      (item) => dropped.push(item),
+    );
+
+  const finish = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      pending.shift()?.();
+      await flush();
+    }
+  };
+
+  beforeEach(() => {
+    processed = [];
+    dropped = [];
+    pending = [];
+  });
+
+  it('waits for room under backpressure without exceeding capacity', async () => {
+    const queue = createQueue('backpressure');
+    const pushes = ['a', 'b', 'c', 'd', 'e', 'f'].map((item) =>
+      queue.push('topic', item),
+    );
+    await flush();
+
+    // a is being worked on, b and c fill the queue, the rest wait
+    expect(queue.getStatus()).toMatchObject({ depth: 2, paused: true });
+
+    const depths: number[] = [];
+    for (let i = 0; i < 6; i++) {
+      await finish(1);
+      depths.push(queue.getStatus().depth);
+    }
+    await Promise.all(pushes);
+    await queue.drain();
+
+    expect(Math.max(...depths)).toBeLessThanOrEqual(2);
+    expect(processed).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+    expect(dropped).toEqual([]);
+    // Waiters that woke and had to wait again were still one pause
+    expect(queue.getStatus()).toMatchObject({
+      depth: 0,
+      paused: false,
+      pauseCount: 1,
+    });
+  });
+
+  it('drops new items with drop-newest', async () => {
+    const queue = createQueue('drop-newest');
+    for (const item of ['a', 'b', 'c', 'd']) await queue.push('topic', item);
+
+    await finish(3);
+
+    expect(dropped).toEqual(['d']);
+    expect(processed).toEqual(['a', 'b', 'c']);
+  });
+
+  it('drops the oldest queued item with drop-oldest', async () => {
+    const queue = createQueue('drop-oldest');
+    for (const item of ['a', 'b', 'c', 'd']) await queue.push('topic', item);
+
+    await finish(3);
+
+    expect(dropped).toEqual(['b']);
+    expect(processed).toEqual(['a', 'c', 'd']);
+  });
+
+  it('keeps the order of items with the same key', async () => {
+    const queue = new IngestionQueue<string>(
+      { capacity: 10, concurrency: 4, overflowPolicy: 'backpressure' },
+      async (item) => {
+        await flush();
+        processed.push(item);
+      },
+      () => {},
+    );
+
+    for (const item of ['a1', 'b1', 'a2', 'b2', 'a3']) {
+      await queue.push(item[0], item);
+    }
+    await queue.drain();
+
+    expect(processed.filter((item) => item.startsWith('a'))).toEqual([
+      'a1',
+      'a2',
+      'a3',
+    ]);
+    expect(processed).toHaveLength(5);
+  });
+});
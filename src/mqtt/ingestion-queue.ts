@@ -0,0 +1,185 @@
+import { IngestionOverflowPolicy } from '../config/configuration';
+import { IngestionQueueStatus } from '../types';
+
+export interface IngestionQueueOptions {
+  capacity: number;
+  concurrency: number;
+  overflowPolicy: IngestionOverflowPolicy;
+}
+
+interface QueuedItem<T> {
+  seq: number;
+  item: T;
+}
+
+// Backpressure releases once the queue has drained below this share of its
+// capacity, so a queue hovering at the limit does not pause on every message
+const RESUME_RATIO = 0.8;
+
+/**
+ * Bounded queue between the MQTT client and the log pipeline.
+ *
+ * Items are spread over a fixed number of lanes by key, and each lane is
+ * worked by one worker, so items with the same key (the topic) keep their
+ * order while different keys are processed concurrently. When the queue is
+ * full, `push()` either waits for room (backpressure) or drops an item.
+ */
+export class IngestionQueue<T> {
+  private readonly lanes: QueuedItem<T>[][];
+  private readonly busyLanes = new Set<number>();
+  private readonly spaceWaiters: Array<() => void> = [];
+  private readonly idleWaiters: Array<() => void> = [];
+  private depth = 0;
+  private nextSeq = 0;
+  private processed = 0;
+  private dropped = 0;
+  private pauseCount = 0;
+  private blockedPushes = 0;
+  private pausedSince?: number;
+  private totalPausedMs = 0;
+  private lastPausedAt?: Date;
+
+  constructor(
+    private readonly options: IngestionQueueOptions,
+    private readonly worker: (item: T) => Promise<void>,
+    private readonly onDrop: (item: T) => void,
+  ) {
+    this.lanes = Array.from({ length: options.concurrency }, () => []);
+  }
+
+  /**
+   * Adds an item. Resolves once it has been queued or dropped; under
+   * backpressure that is only after the queue has drained enough.
+   */
+  async push(key: string, item: T): Promise<void> {
+    if (this.depth >= this.options.capacity) {
+      switch (this.options.overflowPolicy) {
+        case 'drop-newest':
+          this.dropped++;
+          this.onDrop(item);
+          return;
+        case 'drop-oldest':
+          this.dropOldest();
+          break;
+        default:
+          this.blockPush();
+          // All waiters wake together; those that find the room taken wait again
+          while (this.depth >= this.options.capacity) {
+            await this.waitForSpace();
+          }
+          this.unblockPush();
+      }
+    }
+
+    const lane = this.laneFor(key);
+    this.lanes[lane].push({ seq: this.nextSeq++, item });
+    this.depth++;
+    void this.runLane(lane);
+  }
+
+  /** Resolves once every queued item has been processed. */
+  drain(): Promise<void> {
+    if (this.depth === 0 && this.busyLanes.size === 0) return Promise.resolve();
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  isPaused(): boolean {
+    return this.pausedSince !== undefined;
+  }
+
+  getStatus(): IngestionQueueStatus {
+    const pausedFor =
+      this.pausedSince !== undefined ? Date.now() - this.pausedSince : 0;
+    return {
+      depth: this.depth,
+      capacity: this.options.capacity,
+      concurrency: this.options.concurrency,
+      inFlight: this.busyLanes.size,
+      overflowPolicy: this.options.overflowPolicy,
+      processed: this.processed,
+      dropped: this.dropped,
+      paused: this.isPaused(),
+      pauseCount: this.pauseCount,
+      totalPausedMs: this.totalPausedMs + pausedFor,
+      lastPausedAt: this.lastPausedAt,
+    };
+  }
+
+  private async runLane(lane: number): Promise<void> {
+    if (this.busyLanes.has(lane)) return;
+    this.busyLanes.add(lane);
+
+    let next = this.lanes[lane].shift();
+    while (next) {
+      this.depth--;
+      this.releaseSpace();
+      try {
+        await this.worker(next.item);
+      } catch {
+        // The worker reports its own failures; keep the lane running
+      }
+      this.processed++;
+      next = this.lanes[lane].shift();
+    }
+
+    this.busyLanes.delete(lane);
+    if (this.depth === 0 && this.busyLanes.size === 0) {
+      this.idleWaiters.splice(0).forEach((resolve) => resolve());
+    }
+  }
+
+  // The pause lasts until no push is blocked any more, so waiters that wake
+  // and find the room taken again extend it instead of starting another
+  private blockPush(): void {
+    if (this.blockedPushes++ > 0) return;
+
+    this.pausedSince = Date.now();
+    this.lastPausedAt = new Date();
+    this.pauseCount++;
+  }
+
+  private unblockPush(): void {
+    if (--this.blockedPushes > 0 || this.pausedSince === undefined) return;
+
+    this.totalPausedMs += Date.now() - this.pausedSince;
+    this.pausedSince = undefined;
+  }
+
+  private waitForSpace(): Promise<void> {
+    return new Promise((resolve) => this.spaceWaiters.push(resolve));
+  }
+
+  private releaseSpace(): void {
+    if (this.spaceWaiters.length === 0) return;
+    if (this.depth > Math.floor(this.options.capacity * RESUME_RATIO)) return;
+
+    this.spaceWaiters.splice(0).forEach((resolve) => resolve());
+  }
+
+  // Evicts the item that was queued first, whichever lane it sits in
+  private dropOldest(): void {
+    let oldestLane = -1;
+    this.lanes.forEach((queued, lane) => {
+      if (
+        queued.length > 0 &&
+        (oldestLane < 0 || queued[0].seq < this.lanes[oldestLane][0].seq)
+      ) {
+        oldestLane = lane;
+      }
+    });
+    const evicted = this.lanes[oldestLane]?.shift();
+    if (!evicted) return;
+
+    this.depth--;
+    this.dropped++;
+    this.onDrop(evicted.item);
+  }
+
+  private laneFor(key: string): number {
+    let hash = 0;
+    for (let i = 0; i < key.length; i++) {
+      hash = (hash * 31 + key.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash) % this.lanes.length;
+  }
+}
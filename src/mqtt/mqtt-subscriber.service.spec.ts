@@ -0,0 +1,133 @@
+import 'reflect-metadata';
+import { Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import configuration from '../config/configuration';
+import { RuntimeConfigService } from '../config/runtime-config.service';
+import { DeadLetterService } from '../dead-letter/dead-letter.service';
+import { DeviceMonitorService } from '../devices/device-monitor.service';
+import { DevicesService } from '../devices/devices.service';
+import { LogStreamService } from '../log-stream/log-stream.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { LogSinkService } from '../sinks/log-sink.service';
+import { DedupService } from './dedup.service';
+import { MqttSubscriberService } from './mqtt-subscriber.service';
+import { PayloadDecoderService } from './payload-decoder.service';
+import { RateLimiterService } from './rate-limiter.service';
+import { RedactionService } from './redaction.service';
+
+// Stands in for a broker connection that never connects
+class FakeClient extends EventEmitter {
+  connected = false;
+  end = jest.fn();
+}
+
+jest.mock('mqtt', () => ({ connect: jest.fn(() => new FakeClient()) }));
+
+describe('MqttSubscriberService subscriptions', () => {
+  let directory: string;
+  let subscriptionsFile: string;
+  let service: MqttSubscriberService;
+
+  const createService = () => {
+    const created = new MqttSubscriberService(
+      {} as LogSinkService,
+      { registerReplayHandler: jest.fn() } as unknown as DeadLetterService,
+      {} as MetricsService,
+      {} as LogStreamService,
+      {} as PayloadDecoderService,
+      {} as DedupService,
+      {} as RateLimiterService,
+      {} as RedactionService,
+      {} as DevicesService,
+      {} as DeviceMonitorService,
+      {
+        addChangeListener: jest.fn(() => () => {}),
+      } as unknown as RuntimeConfigService,
+      {
+        mqtt: {
+          host: 'localhost',
+          port: 1883,
+          protocol: 'mqtt',
+          clientId: 'test',
+          protocolVersion: 4,
+          cleanSession: true,
+          topics: ['devices/+/logs'],
+          publishTopics: [],
+          subscriptionsFile,
+          tls: { rejectUnauthorized: true },
+        },
+        ingestion: {
+          queueSize: 10,
+          concurrency: 1,
+          overflowPolicy: 'backpressure',
+        },
+      } as unknown as ConfigType<typeof configuration>,
+    );
+    created.onModuleInit();
+    return created;
+  };
+
+  const topics = () =>
+    service.getSubscriptions().map(({ topic, qos }) => ({ topic, qos }));
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'subscriptions-'));
+    subscriptionsFile = path.join(directory, 'subscriptions.json');
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('starts from the configured topics without a stored file', () => {
+    service = createService();
+
+    expect(topics()).toEqual([{ topic: 'devices/+/logs', qos: 1 }]);
+    expect(service.getSubscriptions()[0].status).toBe('pending');
+  });
+
+  it('keeps added and removed subscriptions across restarts', async () => {
+    service = createService();
+    await service.addSubscription('sensors/{deviceId}/events', 0);
+    await service.removeSubscription('devices/+/logs');
+    await service.onModuleDestroy();
+
+    service = createService();
+    expect(topics()).toEqual([{ topic: 'sensors/{deviceId}/events', qos: 0 }]);
+  });
+
+  it('keeps the configured topics when the stored file has an invalid entry', () => {
+    fs.writeFileSync(
+      subscriptionsFile,
+      JSON.stringify([
+        { topic: 'sensors/#', qos: 1 },
+        { topic: '$share/group/sensors/#', qos: 1 },
+      ]),
+    );
+
+    service = createService();
+    expect(topics()).toEqual([{ topic: 'devices/+/logs', qos: 1 }]);
+  });
+
+  it('rejects invalid topics without changing the stored subscriptions', async () => {
+    service = createService();
+
+    await expect(service.addSubscription('devices/#/logs')).rejects.toThrow();
+    expect(fs.existsSync(subscriptionsFile)).toBe(false);
+    expect(await service.removeSubscription('unknown/#')).toBe(false);
+  });
+});
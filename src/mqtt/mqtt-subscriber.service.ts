@@ -1,10 +1,58 @@
-import { Injectable, Logger, OnModuleInit, OnModuleDestroy, Inject } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  Inject,
+} from '@nestjs/common';
 import { ConfigType } from '@nestjs/config';
 import * as mqtt from 'mqtt';
-import { MqttClient } from 'mqtt';
-import { LokiService } from '../loki/loki.service';
-import { IoTMessage, LogEntry, LogSeverity, MqttConnectionStatus } from '../types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as tls from 'tls';
+import { IPublishPacket, MqttClient } from 'mqtt';
+import { LogSinkService } from '../sinks/log-sink.service';
+import { DeadLetterService } from '../dead-letter/dead-letter.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { LogStreamService } from '../log-stream/log-stream.service';
+import { DevicesService } from '../devices/devices.service';
+import { DeviceMonitorService } from '../devices/device-monitor.service';
+import {
+  ConfigChange,
+  IngestionQueueStatus,
+  IoTMessage,
+  LogEntry,
+  LogSeverity,
+  CertificateStatus,
+  MqttConnectionStatus,
+  MqttSubscription,
+} from '../types';
 import configuration from '../config/configuration';
+import { TlsCredentials } from '../config/tls';
+import { RuntimeConfigService } from '../config/runtime-config.service';
+import { findMatchingFilter, matchesTopicFilter } from './topic-matcher';
+import {
+  DecodedPayload,
+  PayloadDecoderService,
+} from './payload-decoder.service';
+import { DedupService } from './dedup.service';
+import { IngestionQueue } from './ingestion-queue';
+import { RateLimiterService } from './rate-limiter.service';
+import { RedactionService } from './redaction.service';
+import {
+  DEVICE_ID_PLACEHOLDER,
+  TopicTemplate,
+  matchTopicTemplate,
+  parseTopicTemplate,
+} from './topic-template';
+
+interface QueuedMessage {
+  topic: string;
+  payload: Buffer;
+  contentType?: string;
+  userProperties?: Record<string, string | string[]>;
+}
 
 @Injectable()
 export class MqttSubscriberService implements OnModuleInit, OnModuleDestroy {
@@ -17,37 +65,113 @@ export class MqttSubscriberService implements OnModuleInit, OnModuleDestroy {
   private reconnectAttempts = 0;
   private readonly maxReconnectAttempts = 10;
   private readonly startTime = new Date();
+  private readonly subscriptions = new Map<string, MqttSubscription>();
+  private topicTemplates: TopicTemplate[] = [];
+  private readonly ingestionQueue: IngestionQueue<QueuedMessage>;
+  private readonly tlsCredentials: TlsCredentials;
+  private removeConfigListener?: () => void;
 
   constructor(
-    private readonly lokiService: LokiService,
+    private readonly logSinkService: LogSinkService,
+    private readonly deadLetterService: DeadLetterService,
+    private readonly metricsService: MetricsService,
+    private readonly logStreamService: LogStreamService,
+    private readonly payloadDecoderService: PayloadDecoderService,
+    private readonly dedupService: DedupService,
+    private readonly rateLimiterService: RateLimiterService,
+    private readonly redactionService: RedactionService,
+    private readonly devicesService: DevicesService,
+    private readonly deviceMonitorService: DeviceMonitorService,
+    private readonly runtimeConfigService: RuntimeConfigService,
     @Inject(configuration.KEY)
     private readonly config: ConfigType<typeof configuration>,
-  ) {}
+  ) {
+    // Throws on an invalid template so misconfiguration fails at startup
+    this.config.mqtt.topics.forEach((topic) =>
+      this.trackSubscription(topic, 1),
+    );
+    this.tlsCredentials = new TlsCredentials(this.config.mqtt.tls, 'MQTT');
+
+    this.ingestionQueue = new IngestionQueue<QueuedMessage>(
+      {
+        capacity: this.config.ingestion.queueSize,
+        concurrency: this.config.ingestion.concurrency,
+        overflowPolicy: this.config.ingestion.overflowPolicy,
+      },
+      async (message) => {
+        await this.handleMessage(
+          message.topic,
+          message.payload,
+          message.contentType,
+          message.userProperties,
+        );
+        this.updateQueueMetrics();
+      },
+      (message) => {
+        this.logger.debug(
+          `Ingestion queue full, dropped message from ${message.topic}`,
+        );
+        this.metricsService.recordLogsDropped('queue_full', 1);
+      },
+    );
+  }
 
   onModuleInit(): void {
+    this.deadLetterService.registerReplayHandler('mqtt', (letter) =>
+      this.processMessage(
+        letter.topic ?? '',
+        Buffer.from(letter.payload, 'base64'),
+        letter.contentType,
+        letter.userProperties,
+      ),
+    );
+    this.loadSubscriptions();
+    this.removeConfigListener = this.runtimeConfigService.addChangeListener(
+      (changes) => void this.onConfigChange(changes),
+    );
     this.connect();
   }
 
-  onModuleDestroy(): void {
+  async onModuleDestroy(): Promise<void> {
+    this.removeConfigListener?.();
     if (this.client) {
       this.client.end(true);
     }
+    // Let queued messages reach the sinks before they shut down
+    await this.ingestionQueue.drain();
   }
 
   private connect(): void {
     const mqttConfig = this.config.mqtt;
-    const options: mqtt.IClientOptions = {
+    // mqtt.js hands unknown TLS options through to tls.connect()
+    const options: mqtt.IClientOptions &
+      Pick<tls.ConnectionOptions, 'checkServerIdentity'> = {
       host: mqttConfig.host,
       port: mqttConfig.port,
       // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
       protocol: mqttConfig.protocol as any,
-      clientId: mqttConfig.clientId,
+      clientId: mqttConfig.clientId.replace(/\{hostname\}/g, os.hostname()),
+      protocolVersion: mqttConfig.protocolVersion,
       username: mqttConfig.username,
       password: mqttConfig.password,
       reconnectPeriod: mqttConfig.reconnectPeriod,
       connectTimeout: mqttConfig.connectTimeout,
-      clean: true,
+      clean: mqttConfig.cleanSession,
+      // A client certificate makes mqtt.js switch mqtt:// to mqtts://
+      ...this.tlsCredentials.options,
     };
+    // mqtt.js overrides servername for host names; verify against it regardless
+    const servername = mqttConfig.tls.servername;
+    if (servername) {
+      options.checkServerIdentity = (_host, cert) =>
+        tls.checkServerIdentity(servername, cert);
+    }
+    // Without an expiry a v5 broker drops the session on disconnect
+    if (mqttConfig.protocolVersion === 5 && !mqttConfig.cleanSession) {
+      options.properties = {
+        sessionExpiryInterval: mqttConfig.sessionExpiryInterval,
+      };
+    }
 
     try {
       this.client = mqtt.connect(options);
@@ -70,33 +194,33 @@ export class MqttSubscriberService implements OnModuleInit, OnModuleDestroy {
       this.logger.log('Connected to MQTT broker');
       this.connectionStatus.connected = true;
       this.connectionStatus.connectedSince = new Date();
+      this.metricsService.setMqttConnected(true);
       this.connectionStatus.lastError = undefined;
       this.reconnectAttempts = 0;
       this.subscribeToTopics();
     });
 
-    this.client.on('message', async (topic: string, payload: Buffer) => {
-      try {
-        await this.handleMessage(topic, payload);
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : 'Unknown error';
-        this.logger.error(
-          `Error handling message from topic ${topic}: ${errorMessage}`,
-        );
-      }
-    });
+    // mqtt.js acks a QoS 1/2 message and reads the next packet only once
+    // this calls back, so waiting on a full queue pauses the broker
+    this.client.handleMessage = (packet, callback) => {
+      void this.enqueueMessage(packet).then(() => callback());
+    };
 
     this.client.on('error', (error) => {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
       this.connectionStatus.lastError = errorMessage;
       this.connectionStatus.connected = false;
+      this.metricsService.setMqttConnected(false);
       this.logger.error(`MQTT client error: ${errorMessage}`);
     });
 
     this.client.on('close', () => {
+      this.subscriptions.forEach((subscription) => {
+        subscription.status = 'pending';
+      });
       this.connectionStatus.connected = false;
+      this.metricsService.setMqttConnected(false);
       this.logger.warn('MQTT connection closed');
     });
 
@@ -119,55 +243,357 @@ export class MqttSubscriberService implements OnModuleInit, OnModuleDestroy {
 
     this.client.on('offline', () => {
       this.connectionStatus.connected = false;
+      this.metricsService.setMqttConnected(false);
       this.logger.warn('MQTT client is offline');
     });
   }
 
   private subscribeToTopics(): void {
-    const topics = this.config.mqtt.topics;
-    topics.forEach((topic) => {
-      this.client.subscribe(topic, { qos: 1 }, (error) => {
+    this.subscriptions.forEach((subscription) => {
+      void this.subscribe(subscription);
+    });
+
+    // Unset with MQTT_SHARED_GROUP, so replicas never all report one change
+    const statusTopic = this.deviceMonitorService.getStatusTopicFilter();
+    if (statusTopic) {
+      this.client.subscribe(statusTopic, { qos: 1 }, (error) => {
         if (error) {
-          const errorMessage =
-            error instanceof Error ? error.message : 'Unknown error';
           this.logger.error(
-            `Failed to subscribe to topic ${topic}: ${errorMessage}`,
+            `Failed to subscribe to topic ${statusTopic}: ${error.message}`,
           );
         } else {
-          this.logger.log(`Subscribed to topic: ${topic}`);
+          this.logger.log(`Subscribed to topic: ${statusTopic}`);
         }
       });
+    }
+  }
+
+  // Records the broker's granted QoS or failure on the subscription
+  private subscribe(subscription: MqttSubscription): Promise<MqttSubscription> {
+    if (!this.isConnected()) return Promise.resolve(subscription);
+
+    const filter = this.brokerFilter(subscription.filter);
+    return new Promise((resolve) => {
+      this.client.subscribe(
+        filter,
+        { qos: subscription.qos },
+        (error, granted) => {
+          // mqtt.js skips filters the client already holds and grants nothing
+          const grantedQos = granted?.[0]?.qos ?? subscription.qos;
+          subscription.grantedQos = grantedQos;
+          subscription.updatedAt = new Date();
+
+          // QoS 128 and v5 reason codes from 0x80 up mean the broker refused
+          if (error || grantedQos >= 128) {
+            subscription.status = 'failed';
+            subscription.error = error
+              ? error.message
+              : `Broker refused the subscription (code ${grantedQos})`;
+            this.logger.error(
+              `Failed to subscribe to topic ${filter}: ${subscription.error}`,
+            );
+          } else {
+            subscription.status = 'subscribed';
+            subscription.error = undefined;
+            this.logger.log(
+              `Subscribed to topic: ${filter} (QoS ${grantedQos})`,
+            );
+          }
+          resolve(subscription);
+        },
+      );
     });
   }
 
-  private async handleMessage(topic: string, payload: Buffer): Promise<void> {
+  // Shared subscriptions deliver each message to one replica of the group.
+  // Messages arrive on the real topic, so matching is unaffected.
+  private brokerFilter(filter: string): string {
+    const sharedGroup = this.config.mqtt.sharedGroup;
+    return sharedGroup ? `$share/${sharedGroup}/${filter}` : filter;
+  }
+
+  // Throws on an invalid topic filter or template
+  private parseTopic(topic: string): TopicTemplate {
+    if (topic.startsWith('$share/')) {
+      throw new Error(
+        `Invalid MQTT topic template "${topic}": use MQTT_SHARED_GROUP for shared subscriptions`,
+      );
+    }
+    return parseTopicTemplate(topic);
+  }
+
+  // Throws on an invalid topic filter or template
+  private trackSubscription(topic: string, qos: 0 | 1 | 2): MqttSubscription {
+    const template = this.parseTopic(topic);
+    const subscription: MqttSubscription = {
+      topic,
+      filter: template.filter,
+      qos,
+      status: 'pending',
+      updatedAt: new Date(),
+    };
+    this.subscriptions.set(topic, subscription);
+    this.topicTemplates = Array.from(this.subscriptions.keys()).map((key) =>
+      parseTopicTemplate(key),
+    );
+    return subscription;
+  }
+
+  private loadSubscriptions(): void {
+    const subscriptionsFile = this.config.mqtt.subscriptionsFile;
+    if (!subscriptionsFile || !fs.existsSync(subscriptionsFile)) return;
+
+    try {
+      const stored = JSON.parse(
+        fs.readFileSync(subscriptionsFile, 'utf8'),
+      ) as Array<Pick<MqttSubscription, 'topic' | 'qos'>>;
+      // Validate everything first so a bad entry keeps the configured topics
+      stored.forEach(({ topic }) => this.parseTopic(topic));
+      this.subscriptions.clear();
+      stored.forEach(({ topic, qos }) => this.trackSubscription(topic, qos));
+      this.logger.log(
+        `Loaded ${this.subscriptions.size} subscriptions from ${subscriptionsFile}`,
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to load subscriptions: ${errorMessage}`);
+    }
+  }
+
+  private saveSubscriptions(): void {
+    const subscriptionsFile = this.config.mqtt.subscriptionsFile;
+    if (!subscriptionsFile) return;
+
     try {
-      const messageStr = payload.toString();
-      // this.logger.debug(`Received message from ${topic}: ${messageStr}`);
+      fs.mkdirSync(path.dirname(subscriptionsFile), { recursive: true });
+      const tmpPath = `${subscriptionsFile}.tmp`;
+      const stored = Array.from(this.subscriptions.values()).map(
+        ({ topic, qos }) => ({ topic, qos }),
+      );
+      fs.writeFileSync(tmpPath, JSON.stringify(stored, null, 2));
+      fs.renameSync(tmpPath, subscriptionsFile);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to persist subscriptions: ${errorMessage}`);
+    }
+  }
 
-      // Try to parse as JSON, fallback to plain text
-      let message: IoTMessage;
+  private async enqueueMessage(packet: IPublishPacket): Promise<void> {
+    const wasPaused = this.ingestionQueue.isPaused();
+    const queued = this.ingestionQueue.push(packet.topic, {
+      topic: packet.topic,
+      payload: Buffer.isBuffer(packet.payload)
+        ? packet.payload
+        : Buffer.from(packet.payload),
+      contentType: packet.properties?.contentType,
+      userProperties: packet.properties?.userProperties,
+    });
 
-      try {
-        const parsedMessage = JSON.parse(messageStr);
-        message = this.normalizeMessage(parsedMessage, topic);
-      } catch {
-        // If not JSON, treat as plain text log
-        message = this.createPlainTextMessage(messageStr, topic);
-      }
+    if (!wasPaused && this.ingestionQueue.isPaused()) {
+      this.logger.warn(
+        `Ingestion queue full (${this.config.ingestion.queueSize} messages), pausing MQTT intake`,
+      );
+      this.updateQueueMetrics();
+      await queued;
+      this.logger.log('Ingestion queue has room again, resuming MQTT intake');
+    } else {
+      await queued;
+    }
+    this.updateQueueMetrics();
+  }
+
+  private updateQueueMetrics(): void {
+    this.metricsService.setIngestionQueue(
+      this.ingestionQueue.getStatus().depth,
+      this.ingestionQueue.isPaused(),
+    );
+  }
 
-      // Convert to log entry and send to Loki
-      const logEntry = this.convertToLogEntry(message);
-      await this.lokiService.pushLog(logEntry);
+  private async handleMessage(
+    topic: string,
+    payload: Buffer,
+    contentType?: string,
+    userProperties?: Record<string, string | string[]>,
+  ): Promise<void> {
+    // Online/offline and Last Will messages update device status, not logs
+    if (this.deviceMonitorService.handleStatusMessage(topic, payload)) return;
 
-      // this.logger.debug(`Processed message from device ${message.deviceId}`);
+    const topicPattern = this.getTopicPattern(topic);
+    this.metricsService.recordMqttMessage(topicPattern);
+
+    try {
+      await this.processMessage(topic, payload, contentType, userProperties);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
       this.logger.error(
         `Failed to process message from ${topic}: ${errorMessage}`,
       );
+      this.metricsService.recordProcessingFailure(topicPattern);
+      this.deadLetterService.add({
+        source: 'mqtt',
+        topic,
+        payload: payload.toString('base64'),
+        contentType,
+        userProperties,
+        reason: errorMessage,
+      });
+    }
+  }
+
+  private async processMessage(
+    topic: string,
+    payload: Buffer,
+    contentType?: string,
+    userProperties?: Record<string, string | string[]>,
+  ): Promise<void> {
+    // Decode by content type or topic rule; JSON falls back to plain text
+    let decoded: DecodedPayload;
+    try {
+      decoded = this.payloadDecoderService.decode(topic, payload, contentType);
+    } catch (error) {
+      this.metricsService.recordParseFailure(this.getTopicPattern(topic));
+      throw error;
     }
+
+    // v5 properties become metadata; the device's own metadata wins
+    const properties = this.toPropertyMetadata(contentType, userProperties);
+    const messages = this.expandMessages(decoded, topic).map((message) =>
+      this.redactionService.redact(
+        properties
+          ? { ...message, metadata: { ...properties, ...message.metadata } }
+          : message,
+      ),
+    );
+    if (messages.length === 0) return;
+    this.devicesService.record(messages, topic, decoded.format);
+
+    // Convert to log entries, collapse duplicates and repeats, drop what
+    // exceeds the flood limits, then fan out to live tails and the sinks
+    const logEntries = this.dedupService
+      .process(
+        messages.map((message) => this.convertToLogEntry(message, topic)),
+      )
+      .filter((logEntry) => this.rateLimiterService.allow(logEntry));
+    if (logEntries.length === 0) return;
+
+    logEntries.forEach((logEntry) => this.logStreamService.publish(logEntry));
+    await this.logSinkService.write(logEntries);
+
+    // this.logger.debug(`Processed ${logEntries.length} messages from ${topic}`);
+  }
+
+  private toPropertyMetadata(
+    contentType?: string,
+    userProperties?: Record<string, string | string[]>,
+  ): Record<string, string> | undefined {
+    if (!contentType && !userProperties) return undefined;
+
+    const metadata: Record<string, string> = {};
+    if (contentType) metadata.content_type = contentType;
+    Object.entries(userProperties ?? {}).forEach(([key, value]) => {
+      // User property keys may repeat; mqtt.js hands those over as arrays
+      metadata[key] = Array.isArray(value) ? value.join(',') : value;
+    });
+    return metadata;
+  }
+
+  /**
+   * Gateways publish buffered logs in one message as a JSON array, NDJSON or
+   * an envelope like {deviceId, logs: [...]}; each record becomes its own
+   * message with its own timestamp and severity.
+   */
+  private expandMessages(decoded: DecodedPayload, topic: string): IoTMessage[] {
+    if (decoded.format === 'text') {
+      const text = decoded.value as string;
+      const records = this.parseNdjson(text);
+      if (records) return this.expandBatch(records, topic, {});
+
+      if (decoded.fallback) {
+        this.metricsService.recordParseFailure(this.getTopicPattern(topic));
+      }
+      return [this.createPlainTextMessage(text, topic)];
+    }
+
+    const value = decoded.value;
+    if (Array.isArray(value)) {
+      return this.expandBatch(value, topic, {});
+    }
+
+    if (this.isRecord(value) && Array.isArray(value.logs)) {
+      const { logs, ...envelope } = value;
+      return this.expandBatch(logs as unknown[], topic, envelope);
+    }
+
+    return [this.normalizeMessage(value, topic)];
+  }
+
+  // Envelope fields (deviceId, metadata, ...) apply unless a record overrides them
+  private expandBatch(
+    records: unknown[],
+    topic: string,
+    envelope: Record<string, unknown>,
+  ): IoTMessage[] {
+    return records.map((record) => {
+      if (this.isRecord(record)) {
+        return this.normalizeMessage({ ...envelope, ...record }, topic);
+      }
+
+      const text = typeof record === 'string' ? record : JSON.stringify(record);
+      const message = this.createPlainTextMessage(text, topic);
+      return typeof envelope.deviceId === 'string'
+        ? { ...message, deviceId: envelope.deviceId }
+        : message;
+    });
+  }
+
+  // Returns the records when every non-empty line is a JSON object
+  private parseNdjson(text: string): Record<string, unknown>[] | undefined {
+    const lines = text.split('\n').filter((line) => line.trim().length > 0);
+    if (lines.length < 2) return undefined;
+
+    const records: Record<string, unknown>[] = [];
+    for (const line of lines) {
+      try {
+        const record: unknown = JSON.parse(line);
+        if (!this.isRecord(record)) return undefined;
+        records.push(record);
+      } catch {
+        return undefined;
+      }
+    }
+    return records;
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  // Subscription filter that delivered the topic, used as a low-cardinality label
+  private getTopicPattern(topic: string): string {
+    return (
+      findMatchingFilter(
+        this.topicTemplates.map((template) => template.filter),
+        topic,
+      ) ?? 'unmatched'
+    );
+  }
+
+  // Placeholder values from the first configured template matching the topic
+  private matchTopic(topic: string): Record<string, string> | undefined {
+    for (const template of this.topicTemplates) {
+      const captured = matchTopicTemplate(template, topic);
+      if (captured) return captured;
+    }
+    return undefined;
+  }
+
+  private extractTopicLabels(topic: string): Record<string, string> {
+    const labels = { ...this.matchTopic(topic) };
+    delete labels[DEVICE_ID_PLACEHOLDER];
+    return labels;
   }
 
   private normalizeMessage(parsedMessage: any, topic: string): IoTMessage {
@@ -185,16 +611,17 @@ export class MqttSubscriberService implements OnModuleInit, OnModuleDestroy {
       this.inferMessageType(topic, parsedMessage);
     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
     const metadata = parsedMessage.metadata;
+    // Devices with a broken clock or format fall back to the receive time
     // eslint-disable-next-line @typescript-eslint/no-unsafe-argument, @typescript-eslint/no-unsafe-member-access
-    const timestamp = parsedMessage.timestamp
-      ? new Date(parsedMessage.timestamp)
-      : new Date();
+    const sentAt = new Date(parsedMessage.timestamp ?? NaN);
+    const timestamp = Number.isNaN(sentAt.getTime()) ? new Date() : sentAt;
 
     return {
       deviceId,
       message,
       severity,
       metadata,
+      labels: this.extractTopicLabels(topic),
       timestamp,
     };
   }
@@ -204,12 +631,16 @@ export class MqttSubscriberService implements OnModuleInit, OnModuleDestroy {
       deviceId: this.extractDeviceIdFromTopic(topic),
       message: text,
       severity: this.inferMessageType(topic, { message: text }),
+      labels: this.extractTopicLabels(topic),
       timestamp: new Date(),
     };
   }
 
   private extractDeviceIdFromTopic(topic: string): string {
-    // Support multiple topic patterns:
+    const templateDeviceId = this.matchTopic(topic)?.[DEVICE_ID_PLACEHOLDER];
+    if (templateDeviceId) return templateDeviceId;
+
+    // Topics without a {deviceId} template, support multiple topic patterns:
     // - smtrack/{deviceId}/logs
     // - iot/{deviceId}/logs
     // - {deviceId}/logs
@@ -282,7 +713,7 @@ export class MqttSubscriberService implements OnModuleInit, OnModuleDestroy {
     return LogSeverity.INFO;
   }
 
-  private convertToLogEntry(message: IoTMessage): LogEntry {
+  private convertToLogEntry(message: IoTMessage, topic: string): LogEntry {
     const logMessage =
       typeof message.message === 'string'
         ? message.message
@@ -297,8 +728,10 @@ export class MqttSubscriberService implements OnModuleInit, OnModuleDestroy {
         severity: message.severity,
         device_id: message.deviceId,
         source: 'smtrack-logging',
-        ...(message.metadata && { metadata: JSON.stringify(message.metadata) }),
+        ...message.labels,
       },
+      metadata: message.metadata,
+      topic,
     };
   }
 
@@ -318,6 +751,22 @@ export class MqttSubscriberService implements OnModuleInit, OnModuleDestroy {
     return Date.now() - this.startTime.getTime();
   }
 
+  getCertificates(): CertificateStatus[] {
+    return this.tlsCredentials.getCertificates();
+  }
+
+  getIngestionStatus(): IngestionQueueStatus {
+    return this.ingestionQueue.getStatus();
+  }
+
+  canPublish(topic: string): boolean {
+    const allowed = this.config.mqtt.publishTopics;
+    return (
+      allowed.length === 0 ||
+      allowed.some((filter) => matchesTopicFilter(filter, topic))
+    );
+  }
+
   // Public method to publish a message (for testing or control)
   async publish(topic: string, message: string | object): Promise<void> {
     if (!this.isConnected()) {
@@ -339,6 +788,95 @@ export class MqttSubscriberService implements OnModuleInit, OnModuleDestroy {
     });
   }
 
+  getSubscriptions(): MqttSubscription[] {
+    return Array.from(this.subscriptions.values());
+  }
+
+  /** Adds or updates a subscription on the live client and persists it. */
+  async addSubscription(
+    topic: string,
+    qos: 0 | 1 | 2 = 1,
+  ): Promise<MqttSubscription> {
+    const subscription = this.trackSubscription(topic, qos);
+    this.saveSubscriptions();
+    return this.subscribe(subscription);
+  }
+
+  async removeSubscription(topic: string): Promise<boolean> {
+    const subscription = this.subscriptions.get(topic);
+    if (!subscription) return false;
+
+    this.subscriptions.delete(topic);
+    this.topicTemplates = this.topicTemplates.filter(
+      (template) => template.template !== topic,
+    );
+    this.saveSubscriptions();
+
+    // Another template may still need the same broker filter
+    const filterInUse = this.topicTemplates.some(
+      (template) => template.filter === subscription.filter,
+    );
+    if (filterInUse || !this.isConnected()) return true;
+
+    const filter = this.brokerFilter(subscription.filter);
+    return new Promise((resolve, reject) => {
+      this.client.unsubscribe(filter, (error) => {
+        if (error) {
+          reject(new Error(`Failed to unsubscribe: ${error.message}`));
+        } else {
+          this.logger.log(`Unsubscribed from topic: ${filter}`);
+          resolve(true);
+        }
+      });
+    });
+  }
+
+  // Topics added to or removed from the configuration are (un)subscribed live
+  private async onConfigChange(changes: ConfigChange[]): Promise<void> {
+    const topicsChange = changes.find(
+      (change) => change.path === 'mqtt.topics',
+    );
+    if (!topicsChange) return;
+
+    const previous = topicsChange.previous as string[];
+    const current = topicsChange.current as string[];
+    const removed = previous.filter((topic) => !current.includes(topic));
+    const added = current.filter((topic) => !previous.includes(topic));
+
+    // Validate everything first so a bad entry keeps the current topics
+    try {
+      added.forEach((topic) => this.parseTopic(topic));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Keeping the previous MQTT topics: ${errorMessage}`);
+      this.config.mqtt.topics = previous;
+      return;
+    }
+
+    for (const topic of removed) {
+      await this.applyTopicChange(topic, () => this.removeSubscription(topic));
+    }
+    for (const topic of added) {
+      await this.applyTopicChange(topic, () => this.addSubscription(topic));
+    }
+  }
+
+  private async applyTopicChange(
+    topic: string,
+    change: () => Promise<unknown>,
+  ): Promise<void> {
+    try {
+      await change();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(
+        `Failed to apply topic change for ${topic}: ${errorMessage}`,
+      );
+    }
+  }
+
   // Force reconnection
   reconnect(): void {
     if (this.client) {
@@ -2,19 +2,26 @@ import {
   Controller,
   Get,
   Post,
+  Delete,
   Body,
+  Param,
   HttpStatus,
   HttpException,
   ValidationPipe,
   UsePipes,
 } from '@nestjs/common';
 import { MqttSubscriberService } from './mqtt-subscriber.service';
+import { RateLimiterService } from './rate-limiter.service';
+import { RedactionService } from './redaction.service';
 import { LokiService } from '../loki/loki.service';
+import { RequireRole } from '../auth/auth.decorators';
 import {
   TestLogRequest,
   PublishMessageRequest,
   StatusResponse,
   LogSeverity,
+  MqttSubscription,
+  SubscriptionRequest,
 } from '../types';
 
 @Controller('mqtt')
@@ -22,6 +29,8 @@ export class MqttController {
   constructor(
     private readonly mqttService: MqttSubscriberService,
     private readonly lokiService: LokiService,
+    private readonly rateLimiterService: RateLimiterService,
+    private readonly redactionService: RedactionService,
   ) {}
 
   @Get('status')
@@ -35,19 +44,28 @@ export class MqttController {
         status: mqttStatus.connected ? 'connected' : 'disconnected',
         connectedSince: mqttStatus.connectedSince,
         lastError: mqttStatus.lastError,
+        throttledDevices: this.rateLimiterService.getThrottledDevices(),
+        ingestion: this.mqttService.getIngestionStatus(),
       },
       loki: {
         status: lokiStatus.status,
         bufferedLogs: lokiStatus.bufferedLogs,
         lastFlush: lokiStatus.lastFlush,
         lastError: lokiStatus.lastError,
+        droppedLogs: lokiStatus.droppedLogs,
+        retry: lokiStatus.retry,
+        diskBacklog: lokiStatus.diskBacklog,
+        labels: lokiStatus.labels,
+        tenants: lokiStatus.tenants,
       },
+      redaction: this.redactionService.getStatus(),
       timestamp: new Date(),
       uptime: this.mqttService.getUptime(),
     };
   }
 
   @Post('test-log')
+  @RequireRole('operator')
   @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
   async testLog(
     @Body() request: TestLogRequest,
@@ -62,10 +80,8 @@ export class MqttController {
           severity: request.severity || LogSeverity.INFO,
           device_id: request.deviceId,
           source: 'test-endpoint',
-          ...(request.metadata && {
-            metadata: JSON.stringify(request.metadata),
-          }),
         },
+        metadata: request.metadata,
       };
 
       await this.lokiService.pushLog(logEntry);
@@ -85,10 +101,18 @@ export class MqttController {
   }
 
   @Post('publish')
+  @RequireRole('admin')
   @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
   async publishMessage(
     @Body() request: PublishMessageRequest,
   ): Promise<{ message: string; timestamp: Date }> {
+    if (!this.mqttService.canPublish(request.topic)) {
+      throw new HttpException(
+        `Publishing to ${request.topic} is not allowed`,
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
     try {
       await this.mqttService.publish(request.topic, request.message);
 
@@ -106,7 +130,56 @@ export class MqttController {
     }
   }
 
+  @Get('subscriptions')
+  getSubscriptions(): MqttSubscription[] {
+    return this.mqttService.getSubscriptions();
+  }
+
+  @Post('subscriptions')
+  @RequireRole('operator')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async addSubscription(
+    @Body() request: SubscriptionRequest,
+  ): Promise<MqttSubscription> {
+    try {
+      return await this.mqttService.addSubscription(request.topic, request.qos);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      throw new HttpException(errorMessage, HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  // The filter must be URL-encoded, e.g. smtrack%2F%2B%2Flogs
+  @Delete('subscriptions/:filter')
+  @RequireRole('operator')
+  async removeSubscription(
+    @Param('filter') filter: string,
+  ): Promise<{ message: string; timestamp: Date }> {
+    let removed: boolean;
+    try {
+      removed = await this.mqttService.removeSubscription(filter);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      throw new HttpException(errorMessage, HttpStatus.BAD_GATEWAY);
+    }
+
+    if (!removed) {
+      throw new HttpException(
+        `Subscription ${filter} not found`,
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return {
+      message: `Unsubscribed from ${filter}`,
+      timestamp: new Date(),
+    };
+  }
+
   @Post('reconnect')
+  @RequireRole('operator')
   reconnect(): { message: string; timestamp: Date } {
     try {
       this.mqttService.reconnect();
@@ -126,6 +199,7 @@ export class MqttController {
   }
 
   @Post('flush-logs')
+  @RequireRole('operator')
   async flushLogs(): Promise<{ message: string; timestamp: Date }> {
     try {
       await this.lokiService.forceFlush();
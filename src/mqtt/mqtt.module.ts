@@ -1,12 +1,36 @@
 import { Module } from '@nestjs/common';
 import { MqttSubscriberService } from './mqtt-subscriber.service';
+import { PayloadDecoderService } from './payload-decoder.service';
+import { DedupService } from './dedup.service';
+import { RateLimiterService } from './rate-limiter.service';
+import { RedactionService } from './redaction.service';
 import { MqttController } from './mqtt.controller';
 import { LokiModule } from '../loki/loki.module';
+import { DeadLetterModule } from '../dead-letter/dead-letter.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { LogStreamModule } from '../log-stream/log-stream.module';
+import { SinksModule } from '../sinks/sinks.module';
+import { DevicesModule } from '../devices/devices.module';
+import { RuntimeConfigModule } from '../config/runtime-config.module';
 
 @Module({
-  imports: [LokiModule],
+  imports: [
+    LokiModule,
+    DeadLetterModule,
+    MetricsModule,
+    LogStreamModule,
+    SinksModule,
+    DevicesModule,
+    RuntimeConfigModule,
+  ],
   controllers: [MqttController],
-  providers: [MqttSubscriberService],
+  providers: [
+    MqttSubscriberService,
+    PayloadDecoderService,
+    DedupService,
+    RateLimiterService,
+    RedactionService,
+  ],
   exports: [MqttSubscriberService],
 })
 export class MqttModule {}
@@ -0,0 +1,132 @@
+import 'reflect-metadata';
+import { encode as encodeMessagePack } from '@msgpack/msgpack';
+import { ConfigType } from '@nestjs/config';
+import { encode as encodeCbor } from 'cbor-x';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { gzipSync } from 'zlib';
+import configuration from '../config/configuration';
+import { PayloadDecoderService } from './payload-decoder.service';
+
+describe('PayloadDecoderService', () => {
+  const message = { deviceId: 'sensor-1', message: 'boot', severity: 'info' };
+  const json = Buffer.from(JSON.stringify(message));
+
+  const createService = (
+    mqtt: Partial<ConfigType<typeof configuration>['mqtt']> = {},
+  ) =>
+    new PayloadDecoderService({
+      mqtt: { defaultDecoder: 'json', decoderRules: [], ...mqtt },
+    } as ConfigType<typeof configuration>);
+
+  it('decodes every built-in format', () => {
+    const service = createService({
+      decoderRules: [
+        'devices/+/cbor=cbor',
+        'devices/+/msgpack=msgpack',
+        'devices/+/gzip=gzip',
+        'devices/+/base64=base64',
+      ],
+    });
+
+    expect(service.decode('devices/1/cbor', encodeCbor(message))).toEqual({
+      format: 'cbor',
+      value: message,
+    });
+    expect(
+      service.decode(
+        'devices/1/msgpack',
+        Buffer.from(encodeMessagePack(message)),
+      ).value,
+    ).toEqual(message);
+    expect(service.decode('devices/1/gzip', gzipSync(json)).value).toEqual(
+      message,
+    );
+    expect(
+      service.decode(
+        'devices/1/base64',
+        Buffer.from(gzipSync(json).toString('base64')),
+      ).value,
+    ).toEqual(message);
+  });
+
+  it('prefers the MQTT v5 content type over topic rules', () => {
+    const service = createService({ decoderRules: ['devices/#=cbor'] });
+
+    expect(
+      service.decode('devices/1', json, 'application/json; charset=utf-8'),
+    ).toEqual({ format: 'json', value: message });
+    expect(service.decode('devices/1', json, 'text/plain')).toEqual({
+      format: 'text',
+      value: JSON.stringify(message),
+    });
+  });
+
+  it('falls back to text for JSON that does not parse', () => {
+    expect(createService().decode('devices/1', Buffer.from('hello'))).toEqual({
+      format: 'text',
+      value: 'hello',
+      fallback: true,
+    });
+  });
+
+  it('throws when another decoder rejects the payload', () => {
+    const service = createService({ defaultDecoder: 'gzip' });
+
+    expect(() => service.decode('devices/1', json)).toThrow(
+      'Failed to decode payload as gzip',
+    );
+  });
+
+  it('accepts topic templates in rules', () => {
+    const service = createService({
+      decoderRules: ['devices/{deviceId}/packed=msgpack'],
+    });
+
+    expect(
+      service.decode(
+        'devices/1/packed',
+        Buffer.from(encodeMessagePack(message)),
+      ).format,
+    ).toBe('msgpack');
+  });
+
+  it('rejects unknown decoders and malformed rules', () => {
+    expect(() => createService({ defaultDecoder: 'protobuf' })).toThrow(
+      'set MQTT_PROTOBUF_DESCRIPTOR and MQTT_PROTOBUF_MESSAGE_TYPE',
+    );
+    expect(() => createService({ decoderRules: ['devices/#'] })).toThrow(
+      'expected <topic>=<decoder>',
+    );
+    expect(() => createService({ decoderRules: ['devices/#=xml'] })).toThrow(
+      'Unknown payload decoder "xml"',
+    );
+  });
+
+  it('decodes protobuf with the configured descriptor', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'decoders-'));
+    const descriptor = path.join(directory, 'log.proto');
+    fs.writeFileSync(
+      descriptor,
+      'syntax = "proto3"; package iot; message Log { string deviceId = 1; uint64 sequence = 2; }',
+    );
+
+    try {
+      const service = createService({
+        defaultDecoder: 'protobuf',
+        protobufDescriptor: descriptor,
+        protobufMessageType: 'iot.Log',
+      });
+      // deviceId "s1" and sequence 7
+      const payload = Buffer.from([0x0a, 0x02, 0x73, 0x31, 0x10, 0x07]);
+
+      expect(service.decode('devices/1', payload)).toEqual({
+        format: 'protobuf',
+        value: { deviceId: 's1', sequence: '7' },
+      });
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,153 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import configuration from '../config/configuration';
+import {
+  PayloadDecoder,
+  base64JsonDecoder,
+  cborDecoder,
+  createProtobufDecoder,
+  gzipJsonDecoder,
+  jsonDecoder,
+  messagePackDecoder,
+} from './payload-decoders';
+import { matchesTopicFilter } from './topic-matcher';
+import { parseTopicTemplate } from './topic-template';
+
+export interface DecodedPayload {
+  // Name of the decoder that produced the value, or 'text'
+  format: string;
+  value: unknown;
+  // Set when a JSON payload failed to parse and is treated as plain text
+  fallback?: boolean;
+}
+
+interface DecoderRule {
+  filter: string;
+  decoder: PayloadDecoder;
+}
+
+// MQTT v5 content types mapped to decoder names; 'text' skips decoding
+const CONTENT_TYPE_DECODERS: Record<string, string> = {
+  'application/json': 'json',
+  'application/cbor': 'cbor',
+  'application/msgpack': 'msgpack',
+  'application/x-msgpack': 'msgpack',
+  'application/vnd.msgpack': 'msgpack',
+  'application/protobuf': 'protobuf',
+  'application/x-protobuf': 'protobuf',
+  'application/gzip': 'gzip',
+  'text/plain': 'text',
+};
+
+@Injectable()
+export class PayloadDecoderService {
+  private readonly logger = new Logger(PayloadDecoderService.name);
+  private readonly decoders = new Map<string, PayloadDecoder>();
+  private readonly rules: DecoderRule[];
+  private readonly defaultDecoder: PayloadDecoder;
+
+  constructor(
+    @Inject(configuration.KEY)
+    private readonly config: ConfigType<typeof configuration>,
+  ) {
+    [
+      jsonDecoder,
+      cborDecoder,
+      messagePackDecoder,
+      gzipJsonDecoder,
+      base64JsonDecoder,
+    ].forEach((decoder) => this.register(decoder));
+
+    const { protobufDescriptor, protobufMessageType } = this.config.mqtt;
+    if (protobufDescriptor && protobufMessageType) {
+      this.register(
+        createProtobufDecoder(protobufDescriptor, protobufMessageType),
+      );
+    }
+
+    this.defaultDecoder = this.getDecoder(
+      this.config.mqtt.defaultDecoder,
+      'MQTT_DEFAULT_DECODER',
+    );
+    this.rules = this.config.mqtt.decoderRules.map((rule) =>
+      this.parseRule(rule),
+    );
+  }
+
+  register(decoder: PayloadDecoder): void {
+    this.decoders.set(decoder.name, decoder);
+  }
+
+  /**
+   * Decodes a payload with the decoder chosen by MQTT v5 content type, then
+   * by the first matching topic rule, then by the default decoder.
+   */
+  decode(topic: string, payload: Buffer, contentType?: string): DecodedPayload {
+    const decoder = this.selectDecoder(topic, contentType);
+    if (!decoder) {
+      return { format: 'text', value: payload.toString() };
+    }
+
+    try {
+      return { format: decoder.name, value: decoder.decode(payload) };
+    } catch (error) {
+      // Devices that publish plain text on JSON topics keep working as before
+      if (decoder === jsonDecoder) {
+        return { format: 'text', value: payload.toString(), fallback: true };
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(
+        `Failed to decode payload as ${decoder.name}: ${errorMessage}`,
+      );
+    }
+  }
+
+  private selectDecoder(
+    topic: string,
+    contentType?: string,
+  ): PayloadDecoder | undefined {
+    if (contentType) {
+      const mimeType = contentType.split(';')[0].trim().toLowerCase();
+      const name = CONTENT_TYPE_DECODERS[mimeType];
+      if (name === 'text') return undefined;
+
+      const decoder = name ? this.decoders.get(name) : undefined;
+      if (decoder) return decoder;
+      this.logger.debug(`No decoder for content type ${contentType}`);
+    }
+
+    const rule = this.rules.find((candidate) =>
+      matchesTopicFilter(candidate.filter, topic),
+    );
+    return rule?.decoder ?? this.defaultDecoder;
+  }
+
+  // Rules look like "<topic filter or template>=<decoder>"
+  private parseRule(rule: string): DecoderRule {
+    const separator = rule.lastIndexOf('=');
+    if (separator <= 0) {
+      throw new Error(
+        `Invalid MQTT decoder rule "${rule}": expected <topic>=<decoder>`,
+      );
+    }
+
+    return {
+      filter: parseTopicTemplate(rule.slice(0, separator).trim()).filter,
+      decoder: this.getDecoder(rule.slice(separator + 1).trim(), rule),
+    };
+  }
+
+  private getDecoder(name: string, source: string): PayloadDecoder {
+    const decoder = this.decoders.get(name);
+    if (!decoder) {
+      const hint =
+        name === 'protobuf'
+          ? ' (set MQTT_PROTOBUF_DESCRIPTOR and MQTT_PROTOBUF_MESSAGE_TYPE)'
+          : '';
+      throw new Error(`Unknown payload decoder "${name}" in ${source}${hint}`);
+    }
+    return decoder;
+  }
+}
@@ -0,0 +1,69 @@
+import { decode as decodeMessagePack } from '@msgpack/msgpack';
+import { decode as decodeCbor } from 'cbor-x';
+import * as protobuf from 'protobufjs';
+import { gunzipSync } from 'zlib';
+
+/**
+ * Turns a raw MQTT payload into the structured value that
+ * `normalizeMessage()` consumes. Decoders throw when the payload is not in
+ * their format.
+ */
+export interface PayloadDecoder {
+  readonly name: string;
+  decode(payload: Buffer): unknown;
+}
+
+const GZIP_MAGIC = Buffer.from([0x1f, 0x8b]);
+
+function gunzipIfCompressed(payload: Buffer): Buffer {
+  return payload.subarray(0, 2).equals(GZIP_MAGIC)
+    ? gunzipSync(payload)
+    : payload;
+}
+
+export const jsonDecoder: PayloadDecoder = {
+  name: 'json',
+  decode: (payload) => JSON.parse(payload.toString()) as unknown,
+};
+
+export const cborDecoder: PayloadDecoder = {
+  name: 'cbor',
+  decode: (payload) => decodeCbor(payload) as unknown,
+};
+
+export const messagePackDecoder: PayloadDecoder = {
+  name: 'msgpack',
+  decode: (payload) => decodeMessagePack(payload),
+};
+
+// Gzip-compressed JSON
+export const gzipJsonDecoder: PayloadDecoder = {
+  name: 'gzip',
+  decode: (payload) => jsonDecoder.decode(gunzipSync(payload)),
+};
+
+// Base64 text wrapping JSON, optionally gzip-compressed before encoding
+export const base64JsonDecoder: PayloadDecoder = {
+  name: 'base64',
+  decode: (payload) =>
+    jsonDecoder.decode(
+      gunzipIfCompressed(Buffer.from(payload.toString().trim(), 'base64')),
+    ),
+};
+
+export function createProtobufDecoder(
+  descriptorPath: string,
+  messageType: string,
+): PayloadDecoder {
+  const type = protobuf.loadSync(descriptorPath).lookupType(messageType);
+
+  return {
+    name: 'protobuf',
+    decode: (payload) =>
+      type.toObject(type.decode(payload), {
+        longs: String,
+        enums: String,
+        bytes: String,
+      }),
+  };
+}
@@ -0,0 +1,118 @@
+import 'reflect-metadata';
+import { ConfigType } from '@nestjs/config';
+import configuration from '../config/configuration';
+import { LogStreamService } from '../log-stream/log-stream.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { LogSinkService } from '../sinks/log-sink.service';
+import { LogEntry, LogSeverity } from '../types';
+import { RateLimiterService } from './rate-limiter.service';
+
+describe('RateLimiterService', () => {
+  let service: RateLimiterService;
+  let write: jest.Mock;
+  let recordLogsDropped: jest.Mock;
+
+  const entry = (overrides: Partial<LogEntry> = {}): LogEntry => ({
+    message: 'Rebooting',
+    device_id: 'device-1',
+    severity: LogSeverity.INFO,
+    topic: 'devices/device-1/logs',
+    ...overrides,
+  });
+
+  const allowed = (count: number, overrides: Partial<LogEntry> = {}) =>
+    Array.from({ length: count }, () => entry(overrides)).filter((item) =>
+      service.allow(item),
+    ).length;
+
+  const createService = (
+    rateLimit: Partial<ConfigType<typeof configuration>['rateLimit']> = {},
+  ) => {
+    write = jest.fn(() => Promise.resolve());
+    recordLogsDropped = jest.fn();
+    service = new RateLimiterService(
+      {
+        rateLimit: {
+          enabled: true,
+          deviceRate: 1,
+          deviceBurst: 3,
+          topicRate: 100,
+          topicBurst: 100,
+          exemptSeverities: ['error', 'critical'],
+          sampleEvery: 0,
+          summaryInterval: 60000,
+          ...rateLimit,
+        },
+      } as ConfigType<typeof configuration>,
+      { write } as unknown as LogSinkService,
+      { publish: jest.fn() } as unknown as LogStreamService,
+      { recordLogsDropped } as unknown as MetricsService,
+    );
+    service.onModuleInit();
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    createService();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('allows a burst, then refills at the configured rate', () => {
+    expect(allowed(5)).toBe(3);
+    expect(recordLogsDropped).toHaveBeenCalledWith('rate_limited', 1);
+
+    jest.advanceTimersByTime(2000);
+    expect(allowed(5)).toBe(2);
+  });
+
+  it('keeps separate buckets per device and per severity', () => {
+    expect(allowed(5)).toBe(3);
+    expect(allowed(5, { device_id: 'device-2' })).toBe(3);
+    expect(allowed(5, { severity: LogSeverity.WARNING })).toBe(3);
+  });
+
+  it('never throttles exempt severities', () => {
+    expect(allowed(10, { severity: LogSeverity.ERROR })).toBe(10);
+  });
+
+  it('does not spend topic tokens on entries the device bucket refuses', () => {
+    createService({ deviceBurst: 1, topicBurst: 2, topicRate: 0.001 });
+
+    expect(allowed(3)).toBe(1);
+    expect(allowed(3, { device_id: 'device-2' })).toBe(1);
+  });
+
+  it('lets every Nth suppressed entry through when sampling', () => {
+    createService({ sampleEvery: 2 });
+
+    expect(allowed(7)).toBe(5);
+    expect(service.getThrottledDevices()).toEqual([
+      expect.objectContaining({
+        deviceId: 'device-1',
+        suppressed: 4,
+        sampled: 2,
+      }),
+    ]);
+  });
+
+  it('writes a summary per throttled device and then forgets quiet ones', () => {
+    allowed(5);
+
+    jest.advanceTimersByTime(60000);
+    expect(write).toHaveBeenCalledWith([
+      expect.objectContaining({
+        device_id: 'device-1',
+        severity: LogSeverity.WARNING,
+        message: 'device device-1: 2 messages suppressed in last 60s',
+      }),
+    ]);
+
+    jest.advanceTimersByTime(60000);
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(service.getThrottledDevices()).toEqual([]);
+  });
+});
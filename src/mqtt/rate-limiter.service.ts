@@ -0,0 +1,222 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import configuration from '../config/configuration';
+import { LogStreamService } from '../log-stream/log-stream.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { LogSinkService } from '../sinks/log-sink.service';
+import { LogEntry, LogSeverity, ThrottledDeviceStatus } from '../types';
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface Suppression {
+  suppressed: number;
+  sampled: number;
+  totalSuppressed: number;
+  lastSuppressedAt: number;
+}
+
+/**
+ * Token-bucket flood protection for ingested logs. Every device and every
+ * topic gets its own bucket per severity, so a device stuck in a reboot loop
+ * cannot push out other devices' logs, and a flood of info logs cannot use
+ * up the budget for warnings. Exempt severities are never throttled.
+ */
+@Injectable()
+export class RateLimiterService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RateLimiterService.name);
+  private readonly deviceBuckets = new Map<string, TokenBucket>();
+  private readonly topicBuckets = new Map<string, TokenBucket>();
+  private readonly suppressions = new Map<string, Suppression>();
+  private summaryTimer?: NodeJS.Timeout;
+
+  constructor(
+    @Inject(configuration.KEY)
+    private readonly config: ConfigType<typeof configuration>,
+    private readonly logSinkService: LogSinkService,
+    private readonly logStreamService: LogStreamService,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  onModuleInit(): void {
+    if (!this.config.rateLimit.enabled) return;
+
+    this.summaryTimer = setInterval(
+      () => void this.emitSummaries(),
+      this.config.rateLimit.summaryInterval,
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.summaryTimer) {
+      clearInterval(this.summaryTimer);
+    }
+  }
+
+  /** Returns whether the entry may continue down the pipeline. */
+  allow(entry: LogEntry): boolean {
+    const rateLimit = this.config.rateLimit;
+    if (!rateLimit.enabled) return true;
+    if (rateLimit.exemptSeverities.includes(entry.severity)) return true;
+
+    const now = Date.now();
+    const deviceBucket = this.refill(
+      this.deviceBuckets,
+      `${entry.device_id}:${entry.severity}`,
+      rateLimit.deviceRate,
+      rateLimit.deviceBurst,
+      now,
+    );
+    const topicBucket = entry.topic
+      ? this.refill(
+          this.topicBuckets,
+          `${entry.topic}:${entry.severity}`,
+          rateLimit.topicRate,
+          rateLimit.topicBurst,
+          now,
+        )
+      : undefined;
+
+    // Only spend tokens when both budgets allow it, so a throttled device
+    // does not drain the topic budget shared with other devices
+    if (deviceBucket.tokens >= 1 && (!topicBucket || topicBucket.tokens >= 1)) {
+      deviceBucket.tokens--;
+      if (topicBucket) topicBucket.tokens--;
+      return true;
+    }
+
+    return this.suppress(entry.device_id, now);
+  }
+
+  getThrottledDevices(): ThrottledDeviceStatus[] {
+    // Counters reset at every summary, so look back over two intervals
+    const since = Date.now() - 2 * this.config.rateLimit.summaryInterval;
+    return Array.from(this.suppressions.entries())
+      .filter(([, suppression]) => suppression.lastSuppressedAt >= since)
+      .map(([deviceId, suppression]) => ({
+        deviceId,
+        suppressed: suppression.suppressed,
+        sampled: suppression.sampled,
+        totalSuppressed: suppression.totalSuppressed,
+        lastSuppressedAt: new Date(suppression.lastSuppressedAt),
+      }));
+  }
+
+  private refill(
+    buckets: Map<string, TokenBucket>,
+    key: string,
+    ratePerSecond: number,
+    burst: number,
+    now: number,
+  ): TokenBucket {
+    const bucket = buckets.get(key) ?? { tokens: burst, updatedAt: now };
+    bucket.tokens = Math.min(
+      burst,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * ratePerSecond,
+    );
+    bucket.updatedAt = now;
+    buckets.set(key, bucket);
+    return bucket;
+  }
+
+  // Counts the suppression; every Nth suppressed entry still goes through
+  private suppress(deviceId: string, now: number): boolean {
+    const suppression = this.suppressions.get(deviceId) ?? {
+      suppressed: 0,
+      sampled: 0,
+      totalSuppressed: 0,
+      lastSuppressedAt: now,
+    };
+    this.suppressions.set(deviceId, suppression);
+
+    suppression.suppressed++;
+    suppression.totalSuppressed++;
+    suppression.lastSuppressedAt = now;
+
+    const { sampleEvery } = this.config.rateLimit;
+    if (sampleEvery > 0 && suppression.suppressed % sampleEvery === 0) {
+      suppression.sampled++;
+      return true;
+    }
+
+    this.metricsService.recordLogsDropped('rate_limited', 1);
+    return false;
+  }
+
+  private async emitSummaries(): Promise<void> {
+    const intervalSeconds = Math.round(
+      this.config.rateLimit.summaryInterval / 1000,
+    );
+    const summaries: LogEntry[] = [];
+
+    this.suppressions.forEach((suppression, deviceId) => {
+      if (suppression.suppressed === 0) {
+        // Quiet for a whole interval, so the device is no longer throttled
+        this.suppressions.delete(deviceId);
+        return;
+      }
+
+      const sampledNote =
+        suppression.sampled > 0 ? ` (${suppression.sampled} sampled)` : '';
+      summaries.push({
+        message: `device ${deviceId}: ${suppression.suppressed.toLocaleString('en-US')} messages suppressed in last ${intervalSeconds}s${sampledNote}`,
+        device_id: deviceId,
+        severity: LogSeverity.WARNING,
+        timestamp: new Date(),
+        labels: {
+          severity: LogSeverity.WARNING,
+          device_id: deviceId,
+          source: 'smtrack-rate-limiter',
+        },
+        metadata: {
+          suppressed: suppression.suppressed,
+          sampled: suppression.sampled,
+        },
+      });
+      suppression.suppressed = 0;
+      suppression.sampled = 0;
+    });
+
+    this.pruneBuckets();
+    if (summaries.length === 0) return;
+
+    summaries.forEach((summary) => this.logStreamService.publish(summary));
+    try {
+      await this.logSinkService.write(summaries);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(
+        `Failed to write suppression summaries: ${errorMessage}`,
+      );
+    }
+  }
+
+  // Buckets that have refilled completely carry no state worth keeping
+  private pruneBuckets(): void {
+    const now = Date.now();
+    const { deviceRate, deviceBurst, topicRate, topicBurst } =
+      this.config.rateLimit;
+    const prune = (
+      buckets: Map<string, TokenBucket>,
+      rate: number,
+      burst: number,
+    ) =>
+      buckets.forEach((bucket, key) => {
+        if (bucket.tokens + ((now - bucket.updatedAt) / 1000) * rate >= burst) {
+          buckets.delete(key);
+        }
+      });
+
+    prune(this.deviceBuckets, deviceRate, deviceBurst);
+    prune(this.topicBuckets, topicRate, topicBurst);
+  }
+}
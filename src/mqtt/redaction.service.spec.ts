@@ -0,0 +1,141 @@
+import 'reflect-metadata';
+import { ConfigType } from '@nestjs/config';
+import configuration, { RedactionConfig } from '../config/configuration';
+import { IoTMessage, LogSeverity } from '../types';
+import { RedactionService } from './redaction.service';
+
+function createService(overrides: Partial<RedactionConfig> = {}) {
+  return new RedactionService({
+    redaction: { ...new RedactionConfig(), enabled: true, ...overrides },
+  } as ConfigType<typeof configuration>);
+}
+
+function message(text: string, metadata?: Record<string, unknown>): IoTMessage {
+  return {
+    deviceId: 'device-1',
+    message: text,
+    severity: LogSeverity.INFO,
+    metadata,
+  };
+}
+
+describe('RedactionService', () => {
+  it('leaves messages alone when disabled', () => {
+    const service = createService({ enabled: false });
+    const input = message('contact admin@example.com');
+
+    expect(service.redact(input)).toBe(input);
+  });
+
+  it.each([
+    ['email', 'mail admin@example.com now', 'mail [REDACTED] now'],
+    ['ip', 'from 192.168.1.20 port 80', 'from [REDACTED] port 80'],
+    ['mac', 'mac 00:1A:2B:3C:4D:5E up', 'mac [REDACTED] up'],
+    [
+      'bearer',
+      'Authorization: Bearer abc.def-123',
+      'Authorization: Bearer [REDACTED]',
+    ],
+    ['secret', 'login password=hunter2 ok', 'login password=[REDACTED] ok'],
+  ])('masks %s values in the message', (detector, text, expected) => {
+    const service = createService({ detectors: [detector] });
+
+    expect(service.redact(message(text)).message).toBe(expected);
+    expect(service.getStatus().byRule).toEqual({ [detector]: 1 });
+  });
+
+  it('masks secret metadata keys and nested strings', () => {
+    const service = createService();
+    const redacted = service.redact(
+      message('ok', {
+        wifi: { password: 'hunter2', ssid: 'ward-4' },
+        contacts: ['nurse@example.com'],
+      }),
+    );
+
+    expect(redacted.metadata).toEqual({
+      wifi: { password: '[REDACTED]', ssid: 'ward-4' },
+      contacts: ['[REDACTED]'],
+    });
+    expect(service.getStatus()).toMatchObject({
+      messagesRedacted: 1,
+      totalRedactions: 2,
+    });
+  });
+
+  it('does not modify the original message', () => {
+    const service = createService();
+    const metadata = { token: 'abc' };
+
+    service.redact(message('ok', metadata));
+
+    expect(metadata).toEqual({ token: 'abc' });
+  });
+
+  it('applies custom patterns', () => {
+    const service = createService({ detectors: [], patterns: ['PAT-\\d+'] });
+
+    expect(service.redact(message('patient PAT-1234 moved')).message).toBe(
+      'patient [REDACTED] moved',
+    );
+  });
+
+  it('redacts field paths with wildcards', () => {
+    const service = createService({
+      detectors: [],
+      fields: ['metadata.wifi.ssid', '$.metadata.beds.*.name'],
+    });
+    const redacted = service.redact(
+      message('ok', {
+        wifi: { ssid: 'ward-4', channel: 6 },
+        beds: { a: { name: 'Alice', id: 1 }, b: { name: 'Bob', id: 2 } },
+      }),
+    );
+
+    expect(redacted.metadata).toEqual({
+      wifi: { ssid: '[REDACTED]', channel: 6 },
+      beds: {
+        a: { name: '[REDACTED]', id: 1 },
+        b: { name: '[REDACTED]', id: 2 },
+      },
+    });
+  });
+
+  it('removes values in remove mode', () => {
+    const service = createService({
+      mode: 'remove',
+      fields: ['metadata.ssid'],
+    });
+    const redacted = service.redact(
+      message('mail admin@example.com', { ssid: 'ward-4', secret: 'x' }),
+    );
+
+    expect(redacted.message).toBe('mail ');
+    expect(redacted.metadata).toEqual({});
+  });
+
+  it('hashes values consistently with a salt in hash mode', () => {
+    const service = createService({ mode: 'hash', hashSalt: 'salt' });
+    const first = service.redact(message('admin@example.com')).message;
+    const second = service.redact(message('admin@example.com')).message;
+    const unsalted = createService({ mode: 'hash' }).redact(
+      message('admin@example.com'),
+    ).message;
+
+    expect(first).toMatch(/^<hash:[0-9a-f]{12}>$/);
+    expect(second).toBe(first);
+    expect(unsalted).not.toBe(first);
+  });
+
+  it('rejects invalid patterns and field paths', () => {
+    expect(() => createService({ patterns: ['(unclosed'] })).toThrow(
+      'Invalid redaction pattern',
+    );
+    expect(() => createService({ fields: ['deviceId'] })).toThrow(
+      'Invalid redaction field',
+    );
+    expect(() => createService({ fields: ['message.password'] })).toThrow(
+      'expected a path inside metadata',
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { createHash } from 'crypto';
+import configuration from '../config/configuration';
+import { IoTMessage, RedactionStatus } from '../types';
+
+// Text pattern to redact; a `keep` group preserves the prefix it matches
+interface TextRule {
+  name: string;
+  pattern: RegExp;
+}
+
+const SECRET_KEYS =
+  'password|passwd|pwd|pass|passphrase|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|psk|auth';
+
+const BUILT_IN_DETECTORS: Record<string, RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  ip: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b|\b(?:[0-9A-Fa-f]{1,4}:){7}[0-9A-Fa-f]{1,4}\b|\b(?:[0-9A-Fa-f]{1,4}:){1,6}:(?:[0-9A-Fa-f]{1,4}(?::[0-9A-Fa-f]{1,4}){0,5})?\b/g,
+  mac: /\b(?:[0-9A-Fa-f]{2}[:-]){5}[0-9A-Fa-f]{2}\b/g,
+  bearer: /(?<keep>\bBearer\s+)[A-Za-z0-9\-._~+/]+=*/gi,
+  secret: new RegExp(
+    `(?<keep>\\b(?:${SECRET_KEYS})\\s*[=:]\\s*)(?:"[^"]*"|'[^']*'|[^\\s,;&]+)`,
+    'gi',
+  ),
+};
+
+// Metadata keys whose whole value is a secret, checked by the secret detector
+const SECRET_KEY_PATTERN = new RegExp(`^(?:${SECRET_KEYS})$`, 'i');
+
+const MASK = '[REDACTED]';
+
+/**
+ * Scrubs personal data and secrets out of device messages and metadata
+ * before they are converted into log entries. Built-in detectors and custom
+ * patterns run over every string. Field paths remove or mask whole values.
+ */
+@Injectable()
+export class RedactionService {
+  private readonly textRules: TextRule[];
+  private readonly fieldPaths: string[][];
+  private messagesRedacted = 0;
+  private totalRedactions = 0;
+  private readonly byRule: Record<string, number> = {};
+
+  constructor(
+    @Inject(configuration.KEY)
+    private readonly config: ConfigType<typeof configuration>,
+  ) {
+    const { detectors, patterns, fields } = this.config.redaction;
+
+    // Throws on an invalid pattern so misconfiguration fails at startup
+    this.textRules = [
+      ...detectors.map((name) => ({
+        name,
+        pattern: BUILT_IN_DETECTORS[name],
+      })),
+      ...patterns.map((source) => {
+        try {
+          return { name: `custom:${source}`, pattern: new RegExp(source, 'g') };
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error';
+          throw new Error(
+            `Invalid redaction pattern "${source}": ${errorMessage}`,
+          );
+        }
+      }),
+    ];
+    this.fieldPaths = fields.map((field) => {
+      const path = field.replace(/^\$\./, '').split('.');
+      // The message is a plain string, so only metadata has fields to address
+      if (path.length < 2 || path[0] !== 'metadata') {
+        throw new Error(
+          `Invalid redaction field "${field}": expected a path inside metadata`,
+        );
+      }
+      return path;
+    });
+  }
+
+  /** Returns a copy of the message with sensitive values redacted. */
+  redact(message: IoTMessage): IoTMessage {
+    if (!this.config.redaction.enabled) return message;
+
+    const before = this.totalRedactions;
+    const redacted: IoTMessage = {
+      ...message,
+      message: this.redactValue(message.message) as string,
+      metadata: message.metadata
+        ? (this.redactValue(message.metadata) as Record<string, any>)
+        : undefined,
+    };
+
+    // Field paths are rooted at the message itself, e.g. metadata.ssid
+    this.fieldPaths.forEach((path) =>
+      this.redactPath(redacted as unknown as Record<string, any>, path, path),
+    );
+
+    if (this.totalRedactions > before) this.messagesRedacted++;
+    return redacted;
+  }
+
+  getStatus(): RedactionStatus {
+    return {
+      enabled: this.config.redaction.enabled,
+      mode: this.config.redaction.mode,
+      messagesRedacted: this.messagesRedacted,
+      totalRedactions: this.totalRedactions,
+      byRule: { ...this.byRule },
+    };
+  }
+
+  // Walks strings, arrays and objects, returning redacted copies
+  private redactValue(value: unknown): unknown {
+    if (typeof value === 'string') return this.redactText(value);
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item));
+    }
+    if (value === null || typeof value !== 'object') return value;
+
+    const redacted: Record<string, unknown> = {};
+    const secretKeys = this.config.redaction.detectors.includes('secret');
+    Object.entries(value).forEach(([key, item]) => {
+      if (secretKeys && SECRET_KEY_PATTERN.test(key)) {
+        this.count('secret');
+        if (this.config.redaction.mode !== 'remove') {
+          redacted[key] = this.replacement(item);
+        }
+        return;
+      }
+      redacted[key] = this.redactValue(item);
+    });
+    return redacted;
+  }
+
+  private redactText(text: string): string {
+    return this.textRules.reduce(
+      (result, rule) =>
+        result.replace(rule.pattern, (match: string, ...args: unknown[]) => {
+          const groups = args[args.length - 1] as
+            | Record<string, string | undefined>
+            | undefined;
+          const keep = typeof groups === 'object' ? (groups?.keep ?? '') : '';
+          this.count(rule.name);
+          return keep + this.replacement(match.slice(keep.length));
+        }),
+      text,
+    );
+  }
+
+  private redactPath(
+    target: Record<string, any>,
+    path: string[],
+    fullPath: string[],
+  ): void {
+    const [segment, ...rest] = path;
+    const keys = segment === '*' ? Object.keys(target) : [segment];
+
+    keys.forEach((key) => {
+      if (!(key in target)) return;
+      if (rest.length > 0) {
+        const child: unknown = target[key];
+        if (child !== null && typeof child === 'object') {
+          this.redactPath(child as Record<string, any>, rest, fullPath);
+        }
+        return;
+      }
+
+      this.count(`field:${fullPath.join('.')}`);
+      if (this.config.redaction.mode === 'remove') {
+        if (Array.isArray(target)) {
+          target[Number(key)] = undefined;
+        } else {
+          delete target[key];
+        }
+      } else {
+        target[key] = this.replacement(target[key]);
+      }
+    });
+  }
+
+  private replacement(value: unknown): string {
+    switch (this.config.redaction.mode) {
+      case 'remove':
+        return '';
+      case 'hash': {
+        const text = typeof value === 'string' ? value : JSON.stringify(value);
+        const digest = createHash('sha256')
+          .update(`${this.config.redaction.hashSalt ?? ''}${text}`)
+          .digest('hex');
+        return `<hash:${digest.slice(0, 12)}>`;
+      }
+      default:
+        return MASK;
+    }
+  }
+
+  private count(rule: string): void {
+    this.totalRedactions++;
+    this.byRule[rule] = (this.byRule[rule] ?? 0) + 1;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Checks whether a topic matches an MQTT subscription filter, honoring the
+ * single-level (`+`) and multi-level (`#`) wildcards.
+ */
+export function matchesTopicFilter(filter: string, topic: string): boolean {
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+
+  // Wildcards at the first level never match system topics like $SYS/...
+  if (topic.startsWith('$') && /^[+#]/.test(filter)) return false;
+
+  for (let i = 0; i < filterLevels.length; i++) {
+    const level = filterLevels[i];
+    if (level === '#') return true;
+    if (i >= topicLevels.length) return false;
+    if (level !== '+' && level !== topicLevels[i]) return false;
+  }
+
+  return filterLevels.length === topicLevels.length;
+}
+
+export function findMatchingFilter(
+  filters: string[],
+  topic: string,
+): string | undefined {
+  return filters.find((filter) => matchesTopicFilter(filter, topic));
+}
@@ -0,0 +1,51 @@
+import { matchTopicTemplate, parseTopicTemplate } from './topic-template';
+
+describe('parseTopicTemplate', () => {
+  it('replaces placeholders with single-level wildcards', () => {
+    const template = parseTopicTemplate('smtrack/{site}/+/{deviceId}/logs/#');
+
+    expect(template.filter).toBe('smtrack/+/+/+/logs/#');
+    expect(template.levels).toEqual([
+      { kind: 'literal', value: 'smtrack' },
+      { kind: 'placeholder', name: 'site' },
+      { kind: 'single' },
+      { kind: 'placeholder', name: 'deviceId' },
+      { kind: 'literal', value: 'logs' },
+      { kind: 'multi' },
+    ]);
+  });
+
+  it('keeps plain MQTT filters unchanged', () => {
+    expect(parseTopicTemplate('devices/+/logs').filter).toBe('devices/+/logs');
+  });
+
+  it.each([
+    ['', 'topic must not be empty'],
+    ['devices/#/logs', '"#" must be the last level'],
+    ['devices/{1site}', 'not a valid label name'],
+    ['devices/{}', 'not a valid label name'],
+    ['devices/{severity}', 'reserved label'],
+    ['{site}/{site}', 'used twice'],
+    ['devices/{site}-logs', 'mixes wildcards or placeholders with text'],
+    ['devices/a+b', 'mixes wildcards or placeholders with text'],
+  ])('rejects "%s"', (template, reason) => {
+    expect(() => parseTopicTemplate(template)).toThrow(reason);
+  });
+});
+
+describe('matchTopicTemplate', () => {
+  const template = parseTopicTemplate('smtrack/{site}/{deviceId}/#');
+
+  it('captures placeholder values', () => {
+    expect(
+      matchTopicTemplate(template, 'smtrack/north/device-1/logs/error'),
+    ).toEqual({ site: 'north', deviceId: 'device-1' });
+  });
+
+  it('returns undefined for topics outside the template', () => {
+    expect(
+      matchTopicTemplate(template, 'other/north/device-1'),
+    ).toBeUndefined();
+    expect(matchTopicTemplate(template, 'smtrack/north')).toBeUndefined();
+  });
+});
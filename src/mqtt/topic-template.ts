@@ -0,0 +1,96 @@
+import { matchesTopicFilter } from './topic-matcher';
+
+/**
+ * Subscription topic with named placeholders, e.g.
+ * `smtrack/{site}/{ward}/{deviceId}/logs`. Each placeholder matches a single
+ * topic level like `+` and its value is captured under the placeholder name.
+ */
+export interface TopicTemplate {
+  template: string;
+  // MQTT subscription filter with placeholders replaced by `+`
+  filter: string;
+  levels: TemplateLevel[];
+}
+
+type TemplateLevel =
+  | { kind: 'literal'; value: string }
+  | { kind: 'placeholder'; name: string }
+  | { kind: 'single' }
+  | { kind: 'multi' };
+
+export const DEVICE_ID_PLACEHOLDER = 'deviceId';
+
+const PLACEHOLDER_PATTERN = /^\{([^{}]*)\}$/;
+const LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+// Labels the pipeline sets itself and templates must not override
+const RESERVED_LABELS = ['device_id', 'severity', 'source'];
+
+export function parseTopicTemplate(template: string): TopicTemplate {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid MQTT topic template "${template}": ${reason}`);
+  };
+
+  if (template.length === 0) fail('topic must not be empty');
+
+  const names = new Set<string>();
+  const parts = template.split('/');
+  const levels = parts.map((part, index): TemplateLevel => {
+    if (part === '+') return { kind: 'single' };
+    if (part === '#') {
+      if (index !== parts.length - 1) fail('"#" must be the last level');
+      return { kind: 'multi' };
+    }
+
+    const placeholder = PLACEHOLDER_PATTERN.exec(part);
+    if (placeholder) {
+      const name = placeholder[1];
+      if (!LABEL_NAME_PATTERN.test(name)) {
+        fail(`placeholder "{${name}}" is not a valid label name`);
+      }
+      if (RESERVED_LABELS.includes(name)) {
+        fail(`placeholder "{${name}}" is a reserved label`);
+      }
+      if (names.has(name)) fail(`placeholder "{${name}}" is used twice`);
+      names.add(name);
+      return { kind: 'placeholder', name };
+    }
+
+    if (/[{}+#]/.test(part)) {
+      fail(`level "${part}" mixes wildcards or placeholders with text`);
+    }
+    return { kind: 'literal', value: part };
+  });
+
+  const filter = levels
+    .map((level) => {
+      switch (level.kind) {
+        case 'literal':
+          return level.value;
+        case 'multi':
+          return '#';
+        default:
+          return '+';
+      }
+    })
+    .join('/');
+
+  return { template, filter, levels };
+}
+
+/**
+ * Matches a topic against a template and returns the captured placeholder
+ * values, or undefined when the topic does not match.
+ */
+export function matchTopicTemplate(
+  template: TopicTemplate,
+  topic: string,
+): Record<string, string> | undefined {
+  if (!matchesTopicFilter(template.filter, topic)) return undefined;
+
+  const topicLevels = topic.split('/');
+  const captured: Record<string, string> = {};
+  template.levels.forEach((level, index) => {
+    if (level.kind === 'placeholder') captured[level.name] = topicLevels[index];
+  });
+  return captured;
+}
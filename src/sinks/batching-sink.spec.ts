@@ -0,0 +1,141 @@
+import 'reflect-metadata';
+import { Logger } from '@nestjs/common';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { LogEntry, LogSeverity } from '../types';
+import {
+  BatchingSink,
+  BatchingSinkOptions,
+  toSinkError,
+} from './batching-sink';
+import { SinkError } from './log-sink';
+
+class TestSink extends BatchingSink {
+  readonly send = jest.fn<Promise<void>, [LogEntry[]]>(() => Promise.resolve());
+}
+
+describe('BatchingSink', () => {
+  const options: BatchingSinkOptions = {
+    batchSize: 2,
+    flushInterval: 60000,
+    maxBufferSize: 4,
+    retryBaseDelay: 60000,
+    retryMaxDelay: 60000,
+  };
+  const entry = (message: string): LogEntry => ({
+    message,
+    device_id: 'sensor-1',
+    severity: LogSeverity.INFO,
+  });
+
+  let sink: TestSink;
+
+  beforeAll(() => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    sink = new TestSink('test', { ...options });
+  });
+
+  afterEach(async () => {
+    await sink.close();
+  });
+
+  it('sends a batch once the batch size is reached', async () => {
+    await sink.write([entry('a')]);
+    expect(sink.send).not.toHaveBeenCalled();
+
+    await sink.write([entry('b')]);
+    await sink.close();
+
+    expect(sink.send).toHaveBeenCalledTimes(1);
+    expect(sink.send).toHaveBeenCalledWith([entry('a'), entry('b')]);
+    expect(sink.getStatus()).toMatchObject({ sentEntries: 2, status: 'ok' });
+  });
+
+  it('drops the oldest entries when the buffer overflows', async () => {
+    sink.send.mockRejectedValue(new SinkError('down', true));
+
+    await sink.write([entry('a'), entry('b'), entry('c')]);
+    await sink.write([entry('d'), entry('e')]);
+
+    expect(sink.getStatus()).toMatchObject({
+      bufferedEntries: 4,
+      droppedEntries: 1,
+    });
+  });
+
+  it('keeps a batch after a retryable failure and schedules a retry', async () => {
+    sink.send.mockRejectedValueOnce(new SinkError('unavailable', true));
+
+    await sink.write([entry('a'), entry('b')]);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(sink.getStatus()).toMatchObject({
+      status: 'error',
+      bufferedEntries: 2,
+      consecutiveFailures: 1,
+      lastError: 'unavailable',
+    });
+    expect(sink.getStatus().nextRetryAt).toBeInstanceOf(Date);
+
+    // Shutdown flushes without waiting for the retry delay
+    await sink.close();
+    expect(sink.send).toHaveBeenCalledTimes(2);
+    expect(sink.getStatus()).toMatchObject({
+      sentEntries: 2,
+      bufferedEntries: 0,
+    });
+  });
+
+  it('drops a batch rejected permanently and continues with the next', async () => {
+    sink.send.mockRejectedValueOnce(new SinkError('bad request', false));
+
+    await sink.write([entry('a'), entry('b'), entry('c')]);
+    await sink.close();
+
+    expect(sink.getStatus()).toMatchObject({
+      sentEntries: 1,
+      droppedEntries: 2,
+    });
+  });
+
+  it('counts writes after close as dropped', async () => {
+    await sink.close();
+    await sink.write([entry('a')]);
+
+    expect(sink.send).not.toHaveBeenCalled();
+    expect(sink.getStatus().droppedEntries).toBe(1);
+  });
+});
+
+describe('toSinkError', () => {
+  const httpError = (status: number, headers: Record<string, string> = {}) =>
+    new AxiosError('failed', undefined, undefined, undefined, {
+      status,
+      statusText: '',
+      headers,
+      config: { headers: new AxiosHeaders() },
+      data: { error: 'failed' },
+    });
+
+  it('retries network errors, 408, 429 and 5xx only', () => {
+    expect(toSinkError(new AxiosError('socket hang up')).retryable).toBe(true);
+    expect(toSinkError(httpError(503)).retryable).toBe(true);
+    expect(toSinkError(httpError(408)).retryable).toBe(true);
+    expect(toSinkError(httpError(400)).retryable).toBe(false);
+    expect(toSinkError(new Error('circular structure')).retryable).toBe(false);
+  });
+
+  it('honours Retry-After on 429', () => {
+    expect(toSinkError(httpError(429, { 'retry-after': '3' }))).toMatchObject({
+      retryable: true,
+      retryAfterMs: 3000,
+    });
+  });
+});
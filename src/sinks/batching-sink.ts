@@ -0,0 +1,206 @@
+import { Logger } from '@nestjs/common';
+import axios from 'axios';
+import { LogEntry } from '../types';
+import { computeBackoffDelay, parseRetryAfter } from '../loki/retry-policy';
+import { LogSink, SinkError, SinkStatus } from './log-sink';
+
+export interface BatchingSinkOptions {
+  batchSize: number;
+  flushInterval: number;
+  maxBufferSize: number;
+  retryBaseDelay: number;
+  retryMaxDelay: number;
+}
+
+/**
+ * Base class for sinks that deliver in batches. Entries are buffered in
+ * memory (oldest dropped on overflow), sent by a single-flight flush and
+ * retried with backoff while `send()` fails with a retryable error.
+ */
+export abstract class BatchingSink implements LogSink {
+  protected readonly logger: Logger;
+  private buffer: LogEntry[] = [];
+  private intervalId: NodeJS.Timeout;
+  private retryTimer?: NodeJS.Timeout;
+  private flushInProgress?: Promise<void>;
+  private lastFlush?: Date;
+  private lastError?: string;
+  private sentEntries = 0;
+  private droppedEntries = 0;
+  private consecutiveFailures = 0;
+  private nextRetryAt?: Date;
+  private closed = false;
+
+  constructor(
+    readonly name: string,
+    private readonly options: BatchingSinkOptions,
+  ) {
+    this.logger = new Logger(this.constructor.name);
+    this.intervalId = this.startFlushTimer();
+  }
+
+  /** Delivers one batch; throw a SinkError to control retrying. */
+  protected abstract send(entries: LogEntry[]): Promise<void>;
+
+  write(entries: LogEntry[]): Promise<void> {
+    if (this.closed) {
+      this.droppedEntries += entries.length;
+      return Promise.resolve();
+    }
+
+    this.buffer.push(...entries);
+    const overflow = this.buffer.length - this.options.maxBufferSize;
+    if (overflow > 0) {
+      this.buffer.splice(0, overflow);
+      this.droppedEntries += overflow;
+      this.logger.warn(`Buffer full, dropped ${overflow} oldest logs`);
+    }
+
+    if (this.buffer.length >= this.options.batchSize) {
+      void this.flush();
+    }
+    return Promise.resolve();
+  }
+
+  /** Applies a new batch size and flush interval to the running sink. */
+  updateBatching(batchSize: number, flushInterval: number): void {
+    this.options.batchSize = batchSize;
+    if (!this.closed && flushInterval !== this.options.flushInterval) {
+      this.options.flushInterval = flushInterval;
+      clearInterval(this.intervalId);
+      this.intervalId = this.startFlushTimer();
+    }
+  }
+
+  getStatus(): SinkStatus {
+    return {
+      name: this.name,
+      status: this.lastError
+        ? 'error'
+        : this.buffer.length > this.options.batchSize * 10
+          ? 'degraded'
+          : 'ok',
+      bufferedEntries: this.buffer.length,
+      sentEntries: this.sentEntries,
+      droppedEntries: this.droppedEntries,
+      lastFlush: this.lastFlush,
+      lastError: this.lastError,
+      consecutiveFailures: this.consecutiveFailures,
+      nextRetryAt: this.nextRetryAt,
+    };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    clearInterval(this.intervalId);
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+
+    await this.flush(true);
+    if (this.buffer.length > 0) {
+      this.logger.warn(`Discarding ${this.buffer.length} unsent logs`);
+    }
+  }
+
+  private startFlushTimer(): NodeJS.Timeout {
+    return setInterval(() => {
+      if (this.buffer.length > 0) void this.flush();
+    }, this.options.flushInterval);
+  }
+
+  // Only one flush runs at a time; concurrent callers share the running one
+  private flush(force = false): Promise<void> {
+    if (!this.flushInProgress) {
+      this.flushInProgress = this.drain(force).finally(() => {
+        this.flushInProgress = undefined;
+      });
+    }
+    return this.flushInProgress;
+  }
+
+  private async drain(force: boolean): Promise<void> {
+    if (!force && this.nextRetryAt && this.nextRetryAt.getTime() > Date.now()) {
+      return;
+    }
+
+    while (this.buffer.length > 0) {
+      const batch = this.buffer.slice(0, this.options.batchSize);
+      try {
+        await this.send(batch);
+        this.buffer.splice(0, batch.length);
+        this.sentEntries += batch.length;
+        this.lastFlush = new Date();
+        this.lastError = undefined;
+        this.consecutiveFailures = 0;
+        this.nextRetryAt = undefined;
+      } catch (error) {
+        const sinkError = toSinkError(error);
+        this.lastError = sinkError.message;
+
+        if (!sinkError.retryable) {
+          // The destination will never accept this batch as sent
+          this.buffer.splice(0, batch.length);
+          this.droppedEntries += batch.length;
+          this.logger.error(
+            `Rejected ${batch.length} logs permanently: ${sinkError.message}`,
+          );
+          continue;
+        }
+
+        if (!this.closed) this.scheduleRetry(sinkError);
+        return;
+      }
+    }
+  }
+
+  private scheduleRetry(sinkError: SinkError): void {
+    this.consecutiveFailures++;
+    const delay =
+      sinkError.retryAfterMs ??
+      computeBackoffDelay(
+        this.consecutiveFailures,
+        this.options.retryBaseDelay,
+        this.options.retryMaxDelay,
+      );
+    this.nextRetryAt = new Date(Date.now() + delay);
+    this.logger.error(
+      `Failed to send logs (attempt ${this.consecutiveFailures}), retrying in ${delay}ms: ${sinkError.message}`,
+    );
+
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      void this.flush();
+    }, delay);
+  }
+}
+
+/**
+ * Classifies a failed send the same way Loki pushes are: network errors,
+ * 408, 429 and 5xx are retryable, other 4xx are not. Errors raised before
+ * the request is sent, such as a batch that cannot be serialised, would
+ * recur on every attempt and are not retryable either.
+ */
+export function toSinkError(error: unknown): SinkError {
+  if (error instanceof SinkError) return error;
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    if (status === undefined) {
+      return new SinkError(`Request failed: ${error.message}`, true);
+    }
+
+    const data: unknown = error.response?.data;
+    const message = `HTTP ${status} - ${JSON.stringify(data)}`;
+    if (status === 429) {
+      return new SinkError(
+        message,
+        true,
+        parseRetryAfter(error.response?.headers['retry-after']),
+      );
+    }
+    return new SinkError(message, status >= 500 || status === 408);
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new SinkError(message, false);
+}
@@ -0,0 +1,80 @@
+import axios, { AxiosInstance } from 'axios';
+import { LogEntry } from '../types';
+import { BatchingSink, BatchingSinkOptions } from './batching-sink';
+
+export interface ElasticsearchSinkOptions extends BatchingSinkOptions {
+  url: string;
+  index: string;
+  timeout: number;
+  username?: string;
+  password?: string;
+  apiKey?: string;
+}
+
+interface BulkResponse {
+  errors: boolean;
+  items: Array<
+    Record<string, { status: number; error?: { type: string; reason: string } }>
+  >;
+}
+
+/** Indexes entries into daily Elasticsearch/OpenSearch indices via `_bulk`. */
+export class ElasticsearchSink extends BatchingSink {
+  private readonly httpClient: AxiosInstance;
+
+  constructor(private readonly elasticsearchOptions: ElasticsearchSinkOptions) {
+    super('elasticsearch', elasticsearchOptions);
+    const { url, timeout, username, password, apiKey } = elasticsearchOptions;
+
+    this.httpClient = axios.create({
+      baseURL: url,
+      timeout,
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        ...(apiKey && { Authorization: `ApiKey ${apiKey}` }),
+      },
+      ...(username &&
+        password && {
+          auth: { username, password },
+        }),
+    });
+  }
+
+  protected async send(entries: LogEntry[]): Promise<void> {
+    const body = entries
+      .map((entry) => {
+        // An unparseable timestamp would make toISOString() throw
+        const sentAt = new Date(entry.timestamp ?? NaN);
+        const timestamp = Number.isNaN(sentAt.getTime()) ? new Date() : sentAt;
+        const action = { index: { _index: this.indexFor(timestamp) } };
+        const document = {
+          '@timestamp': timestamp.toISOString(),
+          message: entry.message,
+          device_id: entry.device_id,
+          severity: entry.severity,
+          labels: entry.labels,
+          metadata: entry.metadata,
+          topic: entry.topic,
+        };
+        return `${JSON.stringify(action)}\n${JSON.stringify(document)}\n`;
+      })
+      .join('');
+
+    const response = await this.httpClient.post<BulkResponse>('/_bulk', body);
+
+    // _bulk answers 200 even when single documents fail; those are not retried
+    if (response.data.errors) {
+      const failures = response.data.items
+        .map((item) => Object.values(item)[0])
+        .filter((result) => result.error);
+      this.logger.warn(
+        `${failures.length} of ${entries.length} documents were rejected: ${failures[0]?.error?.reason ?? 'unknown reason'}`,
+      );
+    }
+  }
+
+  private indexFor(timestamp: Date): string {
+    const day = timestamp.toISOString().slice(0, 10).replace(/-/g, '.');
+    return `${this.elasticsearchOptions.index}-${day}`;
+  }
+}
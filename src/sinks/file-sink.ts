@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LogEntry } from '../types';
+import { BatchingSink, BatchingSinkOptions } from './batching-sink';
+
+export interface FileSinkOptions extends BatchingSinkOptions {
+  filePath: string;
+  maxBytes: number;
+  // Rotated files kept as <file>.1 (newest) to <file>.<maxFiles>
+  maxFiles: number;
+}
+
+/** Appends NDJSON to a local file and rotates it by size. */
+export class FileSink extends BatchingSink {
+  private currentBytes: number;
+
+  constructor(private readonly fileOptions: FileSinkOptions) {
+    super('file', fileOptions);
+    fs.mkdirSync(path.dirname(fileOptions.filePath), { recursive: true });
+    this.currentBytes = fs.existsSync(fileOptions.filePath)
+      ? fs.statSync(fileOptions.filePath).size
+      : 0;
+  }
+
+  protected send(entries: LogEntry[]): Promise<void> {
+    const data = entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+    const bytes = Buffer.byteLength(data);
+
+    if (
+      this.currentBytes > 0 &&
+      this.currentBytes + bytes > this.fileOptions.maxBytes
+    ) {
+      this.rotate();
+    }
+
+    fs.appendFileSync(this.fileOptions.filePath, data);
+    this.currentBytes += bytes;
+    return Promise.resolve();
+  }
+
+  private rotate(): void {
+    const { filePath, maxFiles } = this.fileOptions;
+
+    if (maxFiles === 0) {
+      fs.rmSync(filePath, { force: true });
+    } else {
+      fs.rmSync(`${filePath}.${maxFiles}`, { force: true });
+      for (let index = maxFiles - 1; index >= 1; index--) {
+        const source = `${filePath}.${index}`;
+        if (fs.existsSync(source)) {
+          fs.renameSync(source, `${filePath}.${index + 1}`);
+        }
+      }
+      fs.renameSync(filePath, `${filePath}.1`);
+    }
+
+    this.currentBytes = 0;
+    this.logger.log(`Rotated ${filePath}`);
+  }
+}
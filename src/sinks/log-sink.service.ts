@@ -0,0 +1,192 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import configuration from '../config/configuration';
+import { RuntimeConfigService } from '../config/runtime-config.service';
+import { LokiService } from '../loki/loki.service';
+import { ConfigChange, LogEntry, LogSinkStatus } from '../types';
+import { LogSink } from './log-sink';
+import { BatchingSink } from './batching-sink';
+import { LokiSink } from './loki-sink';
+import { FileSink } from './file-sink';
+import { StdoutSink } from './stdout-sink';
+import { ElasticsearchSink } from './elasticsearch-sink';
+import { WebhookSink } from './webhook-sink';
+import { SinkRoute, parseSinkRoute } from './sink-route';
+
+@Injectable()
+export class LogSinkService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(LogSinkService.name);
+  private readonly sinks: LogSink[];
+  private routes: SinkRoute[];
+  private removeConfigListener?: () => void;
+
+  constructor(
+    @Inject(configuration.KEY)
+    private readonly config: ConfigType<typeof configuration>,
+    private readonly lokiService: LokiService,
+    private readonly runtimeConfigService: RuntimeConfigService,
+  ) {
+    this.sinks = this.config.sinks.enabled.map((name) => this.createSink(name));
+    this.routes = this.parseRoutes(this.config.sinks.routes);
+
+    this.logger.log(
+      `Writing logs to ${this.sinks.map((sink) => sink.name).join(', ')}`,
+    );
+  }
+
+  onModuleInit(): void {
+    this.removeConfigListener = this.runtimeConfigService.addChangeListener(
+      (changes) => this.onConfigChange(changes),
+    );
+  }
+
+  /** Fans entries out to every sink whose routes match them. */
+  async write(entries: LogEntry[]): Promise<void> {
+    await Promise.all(
+      this.sinks.map((sink) => {
+        const routes = this.getRoutes(sink);
+        const matching =
+          routes.length === 0
+            ? entries
+            : entries.filter((entry) =>
+                routes.some((route) => route.matches(entry)),
+              );
+        return matching.length > 0 ? sink.write(matching) : undefined;
+      }),
+    );
+  }
+
+  getStatus(): LogSinkStatus[] {
+    return this.sinks.map((sink) => ({
+      ...sink.getStatus(),
+      routes: this.getRoutes(sink).map((route) => route.selector),
+    }));
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.removeConfigListener?.();
+    await Promise.all(this.sinks.map((sink) => sink.close()));
+  }
+
+  // Throws on a route that is invalid or targets a sink that is not enabled
+  private parseRoutes(routes: string[]): SinkRoute[] {
+    const parsed = routes.map((route) => parseSinkRoute(route));
+    parsed.forEach((route) => {
+      if (!this.sinks.some((sink) => sink.name === route.sink)) {
+        throw new Error(
+          `Sink route "${route.sink}=${route.selector}" targets a sink that is not enabled in LOG_SINKS`,
+        );
+      }
+    });
+    return parsed;
+  }
+
+  private onConfigChange(changes: ConfigChange[]): void {
+    const routesChange = changes.find(
+      (change) => change.path === 'sinks.routes',
+    );
+    if (routesChange) {
+      try {
+        this.routes = this.parseRoutes(this.config.sinks.routes);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.logger.error(`Keeping the previous sink routes: ${errorMessage}`);
+        this.config.sinks.routes = routesChange.previous as string[];
+      }
+    }
+
+    const batchingChanged = changes.some(
+      (change) =>
+        change.path === 'sinks.batchSize' ||
+        change.path === 'sinks.flushInterval',
+    );
+    if (batchingChanged) {
+      this.sinks.forEach((sink) => {
+        if (sink instanceof BatchingSink) {
+          sink.updateBatching(
+            this.config.sinks.batchSize,
+            this.config.sinks.flushInterval,
+          );
+        }
+      });
+    }
+  }
+
+  private getRoutes(sink: LogSink): SinkRoute[] {
+    return this.routes.filter((route) => route.sink === sink.name);
+  }
+
+  private createSink(name: string): LogSink {
+    const sinksConfig = this.config.sinks;
+    const batching = {
+      batchSize: sinksConfig.batchSize,
+      flushInterval: sinksConfig.flushInterval,
+      maxBufferSize: sinksConfig.maxBufferSize,
+      retryBaseDelay: sinksConfig.retryBaseDelay,
+      retryMaxDelay: sinksConfig.retryMaxDelay,
+    };
+
+    switch (name) {
+      case 'loki':
+        return new LokiSink(this.lokiService);
+      case 'file':
+        return new FileSink({
+          ...batching,
+          filePath: sinksConfig.filePath,
+          maxBytes: sinksConfig.fileMaxBytes,
+          maxFiles: sinksConfig.fileMaxFiles,
+        });
+      case 'stdout':
+        return new StdoutSink();
+      case 'elasticsearch':
+        if (!sinksConfig.elasticsearchUrl) {
+          throw new Error('The elasticsearch sink requires ELASTICSEARCH_URL');
+        }
+        return new ElasticsearchSink({
+          ...batching,
+          url: sinksConfig.elasticsearchUrl,
+          index: sinksConfig.elasticsearchIndex,
+          timeout: sinksConfig.timeout,
+          username: sinksConfig.elasticsearchUsername,
+          password: sinksConfig.elasticsearchPassword,
+          apiKey: sinksConfig.elasticsearchApiKey,
+        });
+      case 'webhook':
+        if (!sinksConfig.webhookUrl) {
+          throw new Error('The webhook sink requires SINK_WEBHOOK_URL');
+        }
+        return new WebhookSink({
+          ...batching,
+          url: sinksConfig.webhookUrl,
+          timeout: sinksConfig.timeout,
+          headers: this.parseHeaders(sinksConfig.webhookHeaders),
+        });
+      default:
+        throw new Error(`Unknown log sink "${name}" in LOG_SINKS`);
+    }
+  }
+
+  private parseHeaders(headers: string[]): Record<string, string> {
+    return Object.fromEntries(
+      headers.map((header) => {
+        const separator = header.indexOf('=');
+        if (separator <= 0) {
+          throw new Error(
+            `Invalid webhook header "${header}": expected <header>=<value>`,
+          );
+        }
+        return [
+          header.slice(0, separator).trim(),
+          header.slice(separator + 1).trim(),
+        ];
+      }),
+    );
+  }
+}
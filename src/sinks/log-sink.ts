@@ -0,0 +1,27 @@
+import { LogEntry, LogSinkStatus } from '../types';
+
+export type SinkStatus = Omit<LogSinkStatus, 'routes'>;
+
+/**
+ * Destination the ingestion pipeline fans log entries out to. `write()`
+ * only hands entries over; each sink batches, retries and reports its own
+ * health independently of the others.
+ */
+export interface LogSink {
+  readonly name: string;
+  write(entries: LogEntry[]): Promise<void>;
+  getStatus(): SinkStatus;
+  /** Flushes pending entries on shutdown. */
+  close(): Promise<void>;
+}
+
+export class SinkError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'SinkError';
+  }
+}
@@ -0,0 +1,38 @@
+import { LogEntry } from '../types';
+import { LokiService } from '../loki/loki.service';
+import { LogSink, SinkStatus } from './log-sink';
+
+/** Adapts LokiService, which batches and retries on its own, to a sink. */
+export class LokiSink implements LogSink {
+  readonly name = 'loki';
+
+  constructor(private readonly lokiService: LokiService) {}
+
+  write(entries: LogEntry[]): Promise<void> {
+    return this.lokiService.pushLogs(entries);
+  }
+
+  getStatus(): SinkStatus {
+    const status = this.lokiService.getStatus();
+    return {
+      name: this.name,
+      status: status.lastError
+        ? 'error'
+        : status.bufferedLogs > 100
+          ? 'degraded'
+          : 'ok',
+      bufferedEntries: status.bufferedLogs,
+      sentEntries: status.sentLogs,
+      droppedEntries: status.droppedLogs + status.retry.rejectedLogs,
+      lastFlush: status.lastFlush,
+      lastError: status.lastError,
+      consecutiveFailures: status.retry.consecutiveFailures,
+      nextRetryAt: status.retry.nextRetryAt,
+    };
+  }
+
+  // LokiService flushes its own buffers when the module is destroyed
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+}
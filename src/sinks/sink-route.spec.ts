@@ -0,0 +1,48 @@
+import 'reflect-metadata';
+import { LogEntry, LogSeverity } from '../types';
+import { parseSinkRoute } from './sink-route';
+
+describe('parseSinkRoute', () => {
+  const entry = (severity: LogSeverity, topic?: string): LogEntry => ({
+    message: 'reading',
+    device_id: 'sensor-1',
+    severity,
+    topic,
+  });
+
+  it('matches everything with a wildcard', () => {
+    const route = parseSinkRoute('stdout=*');
+
+    expect(route).toMatchObject({ sink: 'stdout', selector: '*' });
+    expect(route.matches(entry(LogSeverity.DEBUG))).toBe(true);
+  });
+
+  it('matches a minimum severity', () => {
+    const route = parseSinkRoute('webhook=severity>=error');
+
+    expect(route.matches(entry(LogSeverity.WARNING))).toBe(false);
+    expect(route.matches(entry(LogSeverity.ERROR))).toBe(true);
+    expect(route.matches(entry(LogSeverity.CRITICAL))).toBe(true);
+  });
+
+  it('matches topic filters and templates', () => {
+    const route = parseSinkRoute('elasticsearch=factory/{line}/devices/+/logs');
+
+    expect(
+      route.matches(entry(LogSeverity.INFO, 'factory/a/devices/1/logs')),
+    ).toBe(true);
+    expect(route.matches(entry(LogSeverity.INFO, 'home/devices/1/logs'))).toBe(
+      false,
+    );
+    expect(route.matches(entry(LogSeverity.INFO))).toBe(false);
+  });
+
+  it('rejects malformed routes and unknown severities', () => {
+    expect(() => parseSinkRoute('stdout')).toThrow(
+      'expected <sink>=<selector>',
+    );
+    expect(() => parseSinkRoute('file=severity>=fatal')).toThrow(
+      'unknown severity',
+    );
+  });
+});
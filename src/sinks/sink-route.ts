@@ -0,0 +1,53 @@
+import { LOG_SEVERITY_LEVELS, LogEntry, LogSeverity } from '../types';
+import { matchesTopicFilter } from '../mqtt/topic-matcher';
+import { parseTopicTemplate } from '../mqtt/topic-template';
+
+export interface SinkRoute {
+  sink: string;
+  selector: string;
+  matches(entry: LogEntry): boolean;
+}
+
+const SEVERITY_PREFIX = 'severity>=';
+
+/**
+ * Parses "<sink>=<selector>" where the selector is `*`,
+ * `severity>=<level>` or an MQTT topic filter or template.
+ */
+export function parseSinkRoute(route: string): SinkRoute {
+  const separator = route.indexOf('=');
+  if (separator <= 0) {
+    throw new Error(
+      `Invalid sink route "${route}": expected <sink>=<selector>`,
+    );
+  }
+
+  const sink = route.slice(0, separator).trim();
+  const selector = route.slice(separator + 1).trim();
+
+  if (selector === '*') {
+    return { sink, selector, matches: () => true };
+  }
+
+  if (selector.startsWith(SEVERITY_PREFIX)) {
+    const level = selector.slice(SEVERITY_PREFIX.length) as LogSeverity;
+    const minimum = LOG_SEVERITY_LEVELS.indexOf(level);
+    if (minimum < 0) {
+      throw new Error(`Invalid sink route "${route}": unknown severity`);
+    }
+    return {
+      sink,
+      selector,
+      matches: (entry) =>
+        LOG_SEVERITY_LEVELS.indexOf(entry.severity) >= minimum,
+    };
+  }
+
+  const { filter } = parseTopicTemplate(selector);
+  return {
+    sink,
+    selector,
+    matches: (entry) =>
+      entry.topic !== undefined && matchesTopicFilter(filter, entry.topic),
+  };
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { LogSinkService } from './log-sink.service';
+import { LokiModule } from '../loki/loki.module';
+import { RuntimeConfigModule } from '../config/runtime-config.module';
+
+@Module({
+  imports: [LokiModule, RuntimeConfigModule],
+  providers: [LogSinkService],
+  exports: [LogSinkService],
+})
+export class SinksModule {}
@@ -0,0 +1,34 @@
+import { LogEntry } from '../types';
+import { LogSink, SinkStatus } from './log-sink';
+
+/** Writes each entry as a JSON line to stdout, e.g. for a container log collector. */
+export class StdoutSink implements LogSink {
+  readonly name = 'stdout';
+  private sentEntries = 0;
+  private lastFlush?: Date;
+
+  write(entries: LogEntry[]): Promise<void> {
+    entries.forEach((entry) =>
+      process.stdout.write(`${JSON.stringify(entry)}\n`),
+    );
+    this.sentEntries += entries.length;
+    this.lastFlush = new Date();
+    return Promise.resolve();
+  }
+
+  getStatus(): SinkStatus {
+    return {
+      name: this.name,
+      status: 'ok',
+      bufferedEntries: 0,
+      sentEntries: this.sentEntries,
+      droppedEntries: 0,
+      lastFlush: this.lastFlush,
+      consecutiveFailures: 0,
+    };
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,29 @@
+import axios, { AxiosInstance } from 'axios';
+import { LogEntry } from '../types';
+import { BatchingSink, BatchingSinkOptions } from './batching-sink';
+
+export interface WebhookSinkOptions extends BatchingSinkOptions {
+  url: string;
+  timeout: number;
+  headers: Record<string, string>;
+}
+
+/** POSTs each batch as a JSON array to a generic HTTP endpoint. */
+export class WebhookSink extends BatchingSink {
+  private readonly httpClient: AxiosInstance;
+
+  constructor(private readonly webhookOptions: WebhookSinkOptions) {
+    super('webhook', webhookOptions);
+    this.httpClient = axios.create({
+      timeout: webhookOptions.timeout,
+      headers: {
+        'Content-Type': 'application/json',
+        ...webhookOptions.headers,
+      },
+    });
+  }
+
+  protected async send(entries: LogEntry[]): Promise<void> {
+    await this.httpClient.post(this.webhookOptions.url, entries);
+  }
+}
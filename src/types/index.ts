@@ -4,7 +4,15 @@ import {
   IsEnum,
   IsObject,
   IsNotEmpty,
+  IsIn,
+  IsInt,
+  IsDateString,
+  Matches,
+  IsUrl,
+  Min,
+  Max,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 
 export enum LogSeverity {
   DEBUG = 'debug',
@@ -14,6 +22,15 @@ export enum LogSeverity {
   CRITICAL = 'critical',
 }
 
+// Severities from least to most severe
+export const LOG_SEVERITY_LEVELS: LogSeverity[] = [
+  LogSeverity.DEBUG,
+  LogSeverity.INFO,
+  LogSeverity.WARNING,
+  LogSeverity.ERROR,
+  LogSeverity.CRITICAL,
+];
+
 export class IoTMessage {
   @IsString()
   @IsNotEmpty()
@@ -30,6 +47,11 @@ export class IoTMessage {
   @IsObject()
   metadata?: Record<string, any>;
 
+  // Values captured from named placeholders in the topic template
+  @IsOptional()
+  @IsObject()
+  labels?: Record<string, string>;
+
   @IsOptional()
   timestamp?: Date;
 }
@@ -50,6 +72,16 @@ export class LogEntry {
   @IsObject()
   labels?: Record<string, string>;
 
+  // Device metadata; only allowlisted keys become stream labels
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+
+  // MQTT topic the entry arrived on, used for tenant routing
+  @IsOptional()
+  @IsString()
+  topic?: string;
+
   @IsOptional()
   timestamp?: Date;
 }
@@ -81,35 +113,528 @@ export class PublishMessageRequest {
   message: string | object;
 }
 
+export class SubscriptionRequest {
+  // Topic filter, optionally with named placeholders like MQTT_TOPICS
+  @IsString()
+  @IsNotEmpty()
+  topic: string;
+
+  @IsOptional()
+  @IsIn([0, 1, 2])
+  qos?: 0 | 1 | 2;
+}
+
+export interface MqttSubscription {
+  topic: string;
+  // Filter sent to the broker, with placeholders replaced by +
+  filter: string;
+  qos: 0 | 1 | 2;
+  // pending until the broker acknowledges, e.g. while disconnected
+  status: 'pending' | 'subscribed' | 'failed';
+  grantedQos?: number;
+  error?: string;
+  updatedAt: Date;
+}
+
+export class LogQueryRequest {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  deviceId?: string;
+
+  // Minimum severity; more severe levels are included as well
+  @IsOptional()
+  @IsEnum(LogSeverity)
+  severity?: LogSeverity;
+
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  contains?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5000)
+  @Type(() => Number)
+  limit?: number;
+
+  // `nextCursor` of the previous page: `<nanoseconds>:<entries at that
+  // nanosecond already returned>`
+  @IsOptional()
+  @Matches(/^\d+:\d+$/)
+  cursor?: string;
+
+  // Loki tenant to query; defaults to LOKI_TENANT_ID
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  tenant?: string;
+}
+
+export interface LogQueryEntry {
+  timestamp: Date;
+  deviceId?: string;
+  severity?: string;
+  message: string;
+  labels: Record<string, string>;
+}
+
+export interface LogQueryResponse {
+  query: string;
+  entries: LogQueryEntry[];
+  nextCursor?: string;
+}
+
+export class LogStreamQuery {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  deviceId?: string;
+
+  @IsOptional()
+  @IsEnum(LogSeverity)
+  minSeverity?: LogSeverity;
+}
+
+export interface LogTailSubscriberStatus {
+  id: string;
+  transport: 'sse' | 'websocket';
+  filter: LogStreamQuery;
+  connectedAt: Date;
+  delivered: number;
+  dropped: number;
+}
+
+export type DeadLetterSource = 'mqtt' | 'loki';
+
+export interface DeadLetter {
+  id: string;
+  source: DeadLetterSource;
+  topic?: string;
+  // Base64 for MQTT payloads, JSON-encoded log entries for Loki batches
+  payload: string;
+  contentType?: string;
+  userProperties?: Record<string, string | string[]>;
+  reason: string;
+  attempts: number;
+  firstFailedAt: Date;
+  lastFailedAt: Date;
+}
+
+// Listings leave out the payload, which holds the unredacted message
+export type DeadLetterSummary = Omit<DeadLetter, 'payload'>;
+
+export class DeadLetterQuery {
+  @IsOptional()
+  @IsIn(['mqtt', 'loki'])
+  source?: DeadLetterSource;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  @Type(() => Number)
+  limit?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  offset?: number;
+}
+
+// Device registry
+// silent: no logs within the expected interval; offline: Last Will received
+export type DeviceStatus = 'online' | 'silent' | 'offline';
+
+export interface DeviceRecord {
+  deviceId: string;
+  firstSeen: Date;
+  lastSeen: Date;
+  messageCount: number;
+  messagesBySeverity: Partial<Record<LogSeverity, number>>;
+  lastTopic?: string;
+  lastErrorMessage?: string;
+  lastErrorAt?: Date;
+  // Decoder of the device's most recent payload, e.g. json or cbor
+  payloadFormat?: string;
+  status: DeviceStatus;
+  statusChangedAt?: Date;
+}
+
+export class DeviceQuery {
+  // Case-insensitive substring of the device ID
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @IsOptional()
+  @IsString()
+  format?: string;
+
+  @IsOptional()
+  @IsIn(['online', 'silent', 'offline'])
+  status?: DeviceStatus;
+
+  // Only devices that have sent at least one log of this severity
+  @IsOptional()
+  @IsEnum(LogSeverity)
+  severity?: LogSeverity;
+
+  // Only devices seen within this many seconds
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  seenWithin?: number;
+
+  @IsOptional()
+  @IsIn(['deviceId', 'firstSeen', 'lastSeen', 'messageCount'])
+  sort?: 'deviceId' | 'firstSeen' | 'lastSeen' | 'messageCount';
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  @Type(() => Number)
+  limit?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  offset?: number;
+}
+
+// Alert rules
+export class AlertRuleRequest {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  deviceId?: string;
+
+  // Minimum severity; more severe levels match as well
+  @IsOptional()
+  @IsEnum(LogSeverity)
+  severity?: LogSeverity;
+
+  // MQTT topic filter or template the log must have arrived on
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  topic?: string;
+
+  // Regular expression tested against the log message
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  messagePattern?: string;
+
+  // Matches needed within the window before the rule fires
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  threshold?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  windowSeconds?: number;
+
+  // Minimum time between two alerts of the rule for the same device
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  cooldownSeconds?: number;
+
+  // MQTT topic the alert is published to
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  alertTopic?: string;
+
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  webhookUrl?: string;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  deviceId?: string;
+  severity?: LogSeverity;
+  topic?: string;
+  messagePattern?: string;
+  threshold: number;
+  windowSeconds: number;
+  cooldownSeconds: number;
+  alertTopic?: string;
+  webhookUrl?: string;
+  createdAt: Date;
+}
+
+export interface AlertActionResult {
+  type: 'mqtt' | 'webhook';
+  target: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  deviceId: string;
+  severity: LogSeverity;
+  topic?: string;
+  message: string;
+  // Matches within the window that triggered the alert
+  matchCount: number;
+  triggeredAt: Date;
+  actions: AlertActionResult[];
+}
+
+export class AlertHistoryQuery {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  ruleId?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  deviceId?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  @Type(() => Number)
+  limit?: number;
+}
+
+export interface ThrottledDeviceStatus {
+  deviceId: string;
+  // Counts for the current summary interval
+  suppressed: number;
+  sampled: number;
+  totalSuppressed: number;
+  lastSuppressedAt: Date;
+}
+
+export interface RedactionStatus {
+  enabled: boolean;
+  mode: string;
+  // Messages with at least one redaction, and the redactions themselves
+  messagesRedacted: number;
+  totalRedactions: number;
+  // Redactions per detector, custom pattern or field path
+  byRule: Record<string, number>;
+}
+
+export interface IngestionQueueStatus {
+  // Messages waiting, not counting those being processed
+  depth: number;
+  capacity: number;
+  concurrency: number;
+  inFlight: number;
+  overflowPolicy: string;
+  processed: number;
+  dropped: number;
+  // Whether MQTT intake is paused because the queue is full
+  paused: boolean;
+  pauseCount: number;
+  totalPausedMs: number;
+  lastPausedAt?: Date;
+}
+
 export class StatusResponse {
   mqtt: {
     connected: boolean;
     status: string;
     connectedSince?: Date;
     lastError?: string;
+    throttledDevices: ThrottledDeviceStatus[];
+    ingestion: IngestionQueueStatus;
   };
   loki: {
     status: string;
     bufferedLogs: number;
     lastFlush?: Date;
     lastError?: string;
+    droppedLogs: number;
+    retry: LokiRetryStatus;
+    diskBacklog?: LokiBacklogStatus;
+    labels: LokiLabelStatus;
+    tenants: LokiTenantStatus[];
   };
+  redaction: RedactionStatus;
   timestamp: Date;
   uptime: number;
 }
 
+export interface LokiBacklogStatus {
+  pendingEntries: number;
+  bytesOnDisk: number;
+  segments: number;
+  oldestEntryAgeMs?: number;
+  droppedEntries: number;
+}
+
+export interface LokiRetryStatus {
+  consecutiveFailures: number;
+  totalRetries: number;
+  rejectedBatches: number;
+  rejectedLogs: number;
+  nextRetryAt?: Date;
+  lastDelayMs?: number;
+}
+
+export interface LokiServiceStatus {
+  status: string;
+  bufferedLogs: number;
+  lastFlush?: Date;
+  lastError?: string;
+  sentLogs: number;
+  droppedLogs: number;
+  retry: LokiRetryStatus;
+  diskBacklog?: LokiBacklogStatus;
+  labels: LokiLabelStatus;
+  // Per-tenant breakdown of the totals above
+  tenants: LokiTenantStatus[];
+}
+
+export interface LokiTenantStatus {
+  // Omitted for logs sent without X-Scope-OrgID
+  tenant?: string;
+  status: string;
+  bufferedLogs: number;
+  lastFlush?: Date;
+  lastError?: string;
+  sentLogs: number;
+  droppedLogs: number;
+  retry: LokiRetryStatus;
+  diskBacklog?: LokiBacklogStatus;
+}
+
+export interface LokiLabelStatus {
+  // Distinct values seen per non-core label
+  cardinality: Record<string, number>;
+  // Labels over the cardinality limit whose new values are no longer labels
+  limitedLabels: string[];
+}
+
+// [timestamp in ns, line] with optional structured metadata
+export type LokiStreamValue =
+  | [string, string]
+  | [string, string, Record<string, string>];
+
+export interface LogSinkStatus {
+  name: string;
+  status: 'ok' | 'error' | 'degraded';
+  bufferedEntries: number;
+  sentEntries: number;
+  droppedEntries: number;
+  lastFlush?: Date;
+  lastError?: string;
+  consecutiveFailures: number;
+  nextRetryAt?: Date;
+  // Route selectors; empty when the sink receives every log
+  routes: string[];
+}
+
 export interface LokiStream {
   stream: Record<string, string>;
-  values: Array<[string, string]>;
+  values: LokiStreamValue[];
 }
 
 export interface LokiPushRequest {
   streams: LokiStream[];
 }
 
+export interface LokiQueryRangeParams {
+  query: string;
+  start: string;
+  end: string;
+  limit: number;
+  direction: 'forward' | 'backward';
+}
+
+export interface LokiQueryRangeResponse {
+  status: string;
+  data: {
+    resultType: string;
+    result: LokiStream[];
+  };
+}
+
 export interface MqttConnectionStatus {
   connected: boolean;
   connectedSince?: Date;
   lastError?: string;
   reconnectAttempts: number;
 }
+
+// Each role includes the permissions of the ones before it
+export const ROLES = ['viewer', 'operator', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export interface AuthPrincipal {
+  // Fingerprint of the API key, or the token's subject
+  subject: string;
+  role: Role;
+  method: 'api-key' | 'jwt';
+}
+
+export interface CertificateStatus {
+  // Whether this is a trusted CA or the client certificate presented for mTLS
+  usage: 'ca' | 'client';
+  subject: string;
+  issuer: string;
+  validFrom: Date;
+  validTo: Date;
+  daysRemaining: number;
+  expired: boolean;
+}
+
+export interface ConfigChange {
+  // Dotted setting path such as loki.batchSize
+  path: string;
+  previous: unknown;
+  current: unknown;
+}
+
+export interface ConfigReloadStatus {
+  reloadedAt: Date;
+  applied: string[];
+  // Changed settings that only take effect after a restart
+  restartRequired: string[];
+  error?: string;
+}
+
+export interface EffectiveConfigResponse {
+  configFile?: string;
+  lastReload?: ConfigReloadStatus;
+  config: Record<string, unknown>;
+}